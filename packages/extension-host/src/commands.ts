@@ -1,4 +1,8 @@
 import * as vscode from 'vscode';
+import { SlashMDEditorProvider } from './customEditor';
+
+// Larger files make tables too big to edit comfortably
+const MAX_CSV_SIZE = 1024 * 1024;
 
 // Helper to get the current markdown file URI
 function getActiveMarkdownUri(): vscode.Uri | undefined {
@@ -76,6 +80,47 @@ export function registerCommands(context: vscode.ExtensionContext): void {
     })
   );
 
+  // Insert a table from a CSV or TSV file in the workspace
+  context.subscriptions.push(
+    vscode.commands.registerCommand('slashmd.insertTableFromCsv', async () => {
+      const panel = SlashMDEditorProvider.getActivePanel();
+      if (!panel) {
+        vscode.window.showWarningMessage('No SlashMD editor is currently active');
+        return;
+      }
+
+      const files = await vscode.workspace.findFiles('**/*.{csv,tsv}', '**/node_modules/**', 1000);
+      if (files.length === 0) {
+        vscode.window.showInformationMessage('No CSV or TSV files found in the workspace');
+        return;
+      }
+
+      const selection = await vscode.window.showQuickPick(
+        files.map((uri) => ({ label: vscode.workspace.asRelativePath(uri), uri })),
+        { placeHolder: 'Select a CSV or TSV file to insert as a table' }
+      );
+      if (!selection) return;
+
+      try {
+        const content = await vscode.workspace.fs.readFile(selection.uri);
+        if (content.length > MAX_CSV_SIZE) {
+          vscode.window.showWarningMessage(
+            `File too large. Maximum size is ${MAX_CSV_SIZE / (1024 * 1024)}MB`
+          );
+          return;
+        }
+
+        panel.webview.postMessage({
+          type: 'INSERT_TABLE',
+          text: Buffer.from(content).toString('utf8').replace(/^\uFEFF/, ''),
+          delimiter: selection.uri.path.toLowerCase().endsWith('.tsv') ? '\t' : ',',
+        });
+      } catch (error) {
+        vscode.window.showErrorMessage('Failed to read file');
+      }
+    })
+  );
+
   // Insert Block command (placeholder for slash menu integration)
   context.subscriptions.push(
     vscode.commands.registerCommand('slashmd.insertBlock', async () => {
@@ -84,6 +129,9 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         { label: 'Heading 1', description: '# Large heading' },
         { label: 'Heading 2', description: '## Medium heading' },
         { label: 'Heading 3', description: '### Small heading' },
+        { label: 'Heading 4', description: '#### Subsection heading' },
+        { label: 'Heading 5', description: '##### Minor heading' },
+        { label: 'Heading 6', description: '###### Smallest heading' },
         { label: 'Bullet List', description: '- List items' },
         { label: 'Numbered List', description: '1. Numbered items' },
         { label: 'Todo List', description: '- [ ] Task items' },
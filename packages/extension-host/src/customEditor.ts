@@ -12,8 +12,15 @@ export class SlashMDEditorProvider implements vscode.CustomTextEditorProvider {
     localResourceRoots: [],
   };
 
+  // The SlashMD editor in focus, for commands that act on it
+  private static activePanel: vscode.WebviewPanel | undefined;
+
   constructor(private readonly context: vscode.ExtensionContext) {}
 
+  public static getActivePanel(): vscode.WebviewPanel | undefined {
+    return SlashMDEditorProvider.activePanel;
+  }
+
   public static register(context: vscode.ExtensionContext): vscode.Disposable {
     const provider = new SlashMDEditorProvider(context);
     const providerRegistration = vscode.window.registerCustomEditorProvider(
@@ -125,6 +132,10 @@ export class SlashMDEditorProvider implements vscode.CustomTextEditorProvider {
             break;
           }
 
+          case 'SHOW_ERROR':
+            vscode.window.showErrorMessage(message.message);
+            break;
+
           case 'APPLY_TEXT_EDITS':
             if (message.edits && message.edits.length > 0) {
               isApplyingEdits = true;
@@ -224,8 +235,24 @@ export class SlashMDEditorProvider implements vscode.CustomTextEditorProvider {
       }
     });
 
+    // Track which SlashMD editor is in focus
+    if (webviewPanel.active) {
+      SlashMDEditorProvider.activePanel = webviewPanel;
+    }
+    const viewStateSubscription = webviewPanel.onDidChangeViewState((e) => {
+      if (e.webviewPanel.active) {
+        SlashMDEditorProvider.activePanel = e.webviewPanel;
+      } else if (SlashMDEditorProvider.activePanel === e.webviewPanel) {
+        SlashMDEditorProvider.activePanel = undefined;
+      }
+    });
+
     // Cleanup on panel dispose
     webviewPanel.onDidDispose(() => {
+      if (SlashMDEditorProvider.activePanel === webviewPanel) {
+        SlashMDEditorProvider.activePanel = undefined;
+      }
+      viewStateSubscription.dispose();
       messageHandler.dispose();
       changeDocumentSubscription.dispose();
       configChangeSubscription.dispose();
@@ -249,6 +276,9 @@ export class SlashMDEditorProvider implements vscode.CustomTextEditorProvider {
     const styleUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this.context.extensionUri, 'dist', 'webview.css')
     );
+    const katexStyleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.context.extensionUri, 'dist', 'katex', 'katex.min.css')
+    );
 
     console.log('SlashMD: Extension URI:', this.context.extensionUri.toString());
     console.log('SlashMD: Script URI:', scriptUri.toString());
@@ -263,6 +293,7 @@ export class SlashMDEditorProvider implements vscode.CustomTextEditorProvider {
   <meta charset="UTF-8">
   <meta http-equiv="Content-Security-Policy" content="${csp}">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <link href="${katexStyleUri}" rel="stylesheet">
   <link href="${styleUri}" rel="stylesheet">
   <title>SlashMD</title>
 </head>
@@ -283,7 +314,7 @@ export class SlashMDEditorProvider implements vscode.CustomTextEditorProvider {
       return false;
     };
   </script>
-  <script nonce="${nonce}" src="${scriptUri}"></script>
+  <script type="module" nonce="${nonce}" src="${scriptUri}"></script>
 </body>
 </html>`;
   }
@@ -3,14 +3,33 @@ import * as vscode from 'vscode';
 export type CodeTheme = 'auto' | 'dark' | 'light' | 'github-dark' | 'github-light' | 'monokai';
 export type ImagePathResolution = 'document' | 'workspace';
 
+// Look of a user-defined `[!type]` callout
+export interface CalloutTypeStyle {
+  icon?: string;
+  color?: string;
+}
+
 export interface SlashMDSettings {
   assetsFolder: string;
   imagePathResolution: ImagePathResolution;
   formatWrap: number;
+  formatPreserveLineBreaks: boolean;
+  formatBullet: 'auto' | '-' | '*' | '+';
+  formatEmphasis: 'auto' | '*' | '_';
+  formatStrong: 'auto' | '*' | '_';
+  formatFence: 'auto' | '`' | '~';
+  formatFenceLength: number;
+  formatRule: 'auto' | '-' | '*' | '_';
+  formatOrderedList: 'auto' | 'increment' | 'one';
+  formatListIndent: 'auto' | 'one' | 'tab' | 'mixed';
+  formatLineBreak: 'auto' | 'backslash' | 'spaces';
   calloutsStyle: 'admonition' | 'emoji';
+  calloutsCustomTypes: Record<string, CalloutTypeStyle>;
   togglesSyntax: 'details' | 'list';
+  tablesPasteDelimited: 'table' | 'ask' | 'text';
   mathEnabled: boolean;
   mermaidEnabled: boolean;
+  commentsVisible: boolean;
   codeTheme: CodeTheme;
   headingColor: string;
   h1Color: string;
@@ -18,11 +37,13 @@ export interface SlashMDSettings {
   h3Color: string;
   h4Color: string;
   h5Color: string;
+  h6Color: string;
   h1Indent: string;
   h2Indent: string;
   h3Indent: string;
   h4Indent: string;
   h5Indent: string;
+  h6Indent: string;
   boldColor: string;
   italicColor: string;
 }
@@ -89,10 +110,23 @@ export function getSettings(): SlashMDSettings {
     assetsFolder: config.get<string>('assets.folder', 'assets'),
     imagePathResolution: config.get<ImagePathResolution>('assets.imagePathResolution', 'document'),
     formatWrap: config.get<number>('format.wrap', 0),
+    formatPreserveLineBreaks: config.get<boolean>('format.preserveLineBreaks', false),
+    formatBullet: config.get<'auto' | '-' | '*' | '+'>('format.bullet', 'auto'),
+    formatEmphasis: config.get<'auto' | '*' | '_'>('format.emphasis', 'auto'),
+    formatStrong: config.get<'auto' | '*' | '_'>('format.strong', 'auto'),
+    formatFence: config.get<'auto' | '`' | '~'>('format.fence', 'auto'),
+    formatFenceLength: config.get<number>('format.fenceLength', 0),
+    formatRule: config.get<'auto' | '-' | '*' | '_'>('format.rule', 'auto'),
+    formatOrderedList: config.get<'auto' | 'increment' | 'one'>('format.orderedList', 'auto'),
+    formatListIndent: config.get<'auto' | 'one' | 'tab' | 'mixed'>('format.listIndent', 'auto'),
+    formatLineBreak: config.get<'auto' | 'backslash' | 'spaces'>('format.lineBreak', 'auto'),
     calloutsStyle: config.get<'admonition' | 'emoji'>('callouts.style', 'admonition'),
+    calloutsCustomTypes: config.get<Record<string, CalloutTypeStyle>>('callouts.customTypes', {}),
     togglesSyntax: config.get<'details' | 'list'>('toggles.syntax', 'details'),
+    tablesPasteDelimited: config.get<'table' | 'ask' | 'text'>('tables.pasteDelimited', 'table'),
     mathEnabled: config.get<boolean>('math.enabled', false),
     mermaidEnabled: config.get<boolean>('mermaid.enabled', false),
+    commentsVisible: config.get<boolean>('comments.visible', true),
     codeTheme: config.get<CodeTheme>('theme.codeTheme', 'auto'),
     headingColor: config.get<string>('theme.headingColor', ''),
     h1Color: config.get<string>('theme.h1Color', ''),
@@ -100,11 +134,13 @@ export function getSettings(): SlashMDSettings {
     h3Color: config.get<string>('theme.h3Color', ''),
     h4Color: config.get<string>('theme.h4Color', ''),
     h5Color: config.get<string>('theme.h5Color', ''),
+    h6Color: config.get<string>('theme.h6Color', ''),
     h1Indent: config.get<string>('theme.h1Indent', ''),
     h2Indent: config.get<string>('theme.h2Indent', ''),
     h3Indent: config.get<string>('theme.h3Indent', ''),
     h4Indent: config.get<string>('theme.h4Indent', ''),
     h5Indent: config.get<string>('theme.h5Indent', ''),
+    h6Indent: config.get<string>('theme.h6Indent', ''),
     boldColor: config.get<string>('theme.boldColor', ''),
     italicColor: config.get<string>('theme.italicColor', ''),
   };
@@ -142,6 +178,7 @@ export function getThemeOverrides(settings: SlashMDSettings): ThemeOverrides {
   overrides['--slashmd-h3-color'] = settings.h3Color || settings.headingColor || 'inherit';
   overrides['--slashmd-h4-color'] = settings.h4Color || settings.headingColor || 'inherit';
   overrides['--slashmd-h5-color'] = settings.h5Color || settings.headingColor || 'inherit';
+  overrides['--slashmd-h6-color'] = settings.h6Color || settings.headingColor || 'inherit';
 
   // Per-level heading indentation - use '0' as default to reset when cleared
   overrides['--slashmd-h1-indent'] = settings.h1Indent || '0';
@@ -149,10 +186,24 @@ export function getThemeOverrides(settings: SlashMDSettings): ThemeOverrides {
   overrides['--slashmd-h3-indent'] = settings.h3Indent || '0';
   overrides['--slashmd-h4-indent'] = settings.h4Indent || '0';
   overrides['--slashmd-h5-indent'] = settings.h5Indent || '0';
+  overrides['--slashmd-h6-indent'] = settings.h6Indent || '0';
 
   // Other typography colors
   overrides['--slashmd-bold-color'] = settings.boldColor || 'inherit';
   overrides['--slashmd-italic-color'] = settings.italicColor || 'inherit';
 
+  // Custom callout types - the same variables the built-in types use
+  for (const [calloutType, style] of Object.entries(settings.calloutsCustomTypes)) {
+    const name = calloutType.toLowerCase();
+    if (!/^[\w-]+$/.test(name)) continue;
+    if (style.color) {
+      overrides[`--slashmd-callout-${name}-border`] = style.color;
+      overrides[`--slashmd-callout-${name}-bg`] = `color-mix(in srgb, ${style.color} 10%, transparent)`;
+    }
+    if (style.icon) {
+      overrides[`--slashmd-callout-${name}-icon`] = `"${style.icon.replace(/["\\]/g, '\\$&')}"`;
+    }
+  }
+
   return overrides;
 }
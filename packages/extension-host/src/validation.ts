@@ -29,11 +29,18 @@ export const RequestSettingsMessageSchema = z.object({
   type: z.literal('REQUEST_SETTINGS'),
 });
 
+// Something the user asked for failed in the webview; shown as a notification
+export const ShowErrorMessageSchema = z.object({
+  type: z.literal('SHOW_ERROR'),
+  message: z.string().max(1000),
+});
+
 export const UIToHostMessageSchema = z.discriminatedUnion('type', [
   ApplyTextEditsMessageSchema,
   WriteAssetMessageSchema,
   RequestInitMessageSchema,
   RequestSettingsMessageSchema,
+  ShowErrorMessageSchema,
 ]);
 
 // Type exports
@@ -26,10 +26,26 @@ export const SlashMDSettingsSchema = z.object({
   assetsFolder: z.string().max(256),
   imagePathResolution: ImagePathResolutionSchema,
   formatWrap: z.number().int().min(0).max(1000),
+  formatPreserveLineBreaks: z.boolean(),
+  formatBullet: z.enum(['auto', '-', '*', '+']),
+  formatEmphasis: z.enum(['auto', '*', '_']),
+  formatStrong: z.enum(['auto', '*', '_']),
+  formatFence: z.enum(['auto', '`', '~']),
+  formatFenceLength: z.number().int().min(0).max(20),
+  formatRule: z.enum(['auto', '-', '*', '_']),
+  formatOrderedList: z.enum(['auto', 'increment', 'one']),
+  formatListIndent: z.enum(['auto', 'one', 'tab', 'mixed']),
+  formatLineBreak: z.enum(['auto', 'backslash', 'spaces']),
   calloutsStyle: z.enum(['admonition', 'emoji']),
+  calloutsCustomTypes: z.record(
+    z.string().max(64),
+    z.object({ icon: z.string().max(16).optional(), color: z.string().max(64).optional() })
+  ),
   togglesSyntax: z.enum(['details', 'list']),
+  tablesPasteDelimited: z.enum(['table', 'ask', 'text']),
   mathEnabled: z.boolean(),
   mermaidEnabled: z.boolean(),
+  commentsVisible: z.boolean(),
   codeTheme: CodeThemeSchema,
   headingColor: z.string().max(64),
   h1Color: z.string().max(64),
@@ -37,11 +53,13 @@ export const SlashMDSettingsSchema = z.object({
   h3Color: z.string().max(64),
   h4Color: z.string().max(64),
   h5Color: z.string().max(64),
+  h6Color: z.string().max(64),
   h1Indent: z.string().max(64),
   h2Indent: z.string().max(64),
   h3Indent: z.string().max(64),
   h4Indent: z.string().max(64),
   h5Indent: z.string().max(64),
+  h6Indent: z.string().max(64),
   boldColor: z.string().max(64),
   italicColor: z.string().max(64),
 });
@@ -67,11 +85,18 @@ export const RequestSettingsMessageSchema = z.object({
   type: z.literal('REQUEST_SETTINGS'),
 });
 
+// Something the user asked for failed in the webview; shown as a notification
+export const ShowErrorMessageSchema = z.object({
+  type: z.literal('SHOW_ERROR'),
+  message: z.string().max(1000),
+});
+
 export const UIToHostMessageSchema = z.discriminatedUnion('type', [
   ApplyTextEditsMessageSchema,
   WriteAssetMessageSchema,
   RequestInitMessageSchema,
   RequestSettingsMessageSchema,
+  ShowErrorMessageSchema,
 ]);
 
 // Host → UI message schemas
@@ -110,12 +135,19 @@ export const ErrorMessageSchema = z.object({
   message: z.string().max(10000),
 });
 
+export const InsertTableMessageSchema = z.object({
+  type: z.literal('INSERT_TABLE'),
+  text: z.string().max(5_000_000), // CSV or TSV file contents
+  delimiter: z.enum([',', '\t']),
+});
+
 export const HostToUIMessageSchema = z.discriminatedUnion('type', [
   DocInitMessageSchema,
   DocChangedMessageSchema,
   AssetWrittenMessageSchema,
   SettingsChangedMessageSchema,
   ErrorMessageSchema,
+  InsertTableMessageSchema,
 ]);
 
 // =============================================================================
@@ -135,11 +167,13 @@ export type ApplyTextEditsMessage = z.infer<typeof ApplyTextEditsMessageSchema>;
 export type WriteAssetMessage = z.infer<typeof WriteAssetMessageSchema>;
 export type RequestInitMessage = z.infer<typeof RequestInitMessageSchema>;
 export type RequestSettingsMessage = z.infer<typeof RequestSettingsMessageSchema>;
+export type ShowErrorMessage = z.infer<typeof ShowErrorMessageSchema>;
 export type DocInitMessage = z.infer<typeof DocInitMessageSchema>;
 export type DocChangedMessage = z.infer<typeof DocChangedMessageSchema>;
 export type AssetWrittenMessage = z.infer<typeof AssetWrittenMessageSchema>;
 export type SettingsChangedMessage = z.infer<typeof SettingsChangedMessageSchema>;
 export type ErrorMessage = z.infer<typeof ErrorMessageSchema>;
+export type InsertTableMessage = z.infer<typeof InsertTableMessageSchema>;
 
 // =============================================================================
 // VALIDATION HELPERS
@@ -173,6 +207,9 @@ export type BlockType =
   | 'heading1'
   | 'heading2'
   | 'heading3'
+  | 'heading4'
+  | 'heading5'
+  | 'heading6'
   | 'bulletList'
   | 'numberedList'
   | 'todoList'
@@ -1,6 +1,9 @@
 import * as esbuild from 'esbuild';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
 
 const isWatch = process.argv.includes('--watch');
 
@@ -13,9 +16,13 @@ if (!fs.existsSync(outdir)) {
 const buildOptions = {
   entryPoints: ['src/index.tsx'],
   bundle: true,
-  outfile: path.join(outdir, 'webview.js'),
+  outdir,
+  entryNames: 'webview',
+  // Code loaded with import() (mermaid) goes into chunks fetched on first use
+  chunkNames: 'chunks/[name]-[hash]',
+  splitting: true,
   platform: 'browser',
-  format: 'iife',
+  format: 'esm',
   target: ['es2020'],
   sourcemap: true,
   minify: !isWatch,
@@ -49,10 +56,27 @@ async function copyCss() {
   fs.writeFileSync(cssDest, css);
 }
 
+// Copy the KaTeX stylesheet and fonts so math renders without network access
+function copyKatexAssets() {
+  const katexDist = path.join(path.dirname(require.resolve('katex/package.json')), 'dist');
+  const katexDest = path.join(outdir, 'katex');
+  fs.mkdirSync(path.join(katexDest, 'fonts'), { recursive: true });
+  fs.copyFileSync(path.join(katexDist, 'katex.min.css'), path.join(katexDest, 'katex.min.css'));
+  for (const font of fs.readdirSync(path.join(katexDist, 'fonts'))) {
+    // woff2 is supported by every VS Code webview, skip the legacy formats
+    if (font.endsWith('.woff2')) {
+      fs.copyFileSync(path.join(katexDist, 'fonts', font), path.join(katexDest, 'fonts', font));
+    }
+  }
+}
+
 async function build() {
   try {
     // Copy CSS
     copyCss();
+    copyKatexAssets();
+    // Chunk names carry a hash, drop the ones from earlier builds
+    fs.rmSync(path.join(outdir, 'chunks'), { recursive: true, force: true });
 
     if (isWatch) {
       const ctx = await esbuild.context(buildOptions);
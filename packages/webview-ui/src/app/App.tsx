@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useState, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react';
 import { Editor } from './editor';
 import {
   addMessageHandler,
@@ -6,6 +6,7 @@ import {
   applyTextEdits,
   writeAsset,
 } from '../messaging';
+import type { StringifyOptions } from '../markdown/stringify';
 import type { HostToUIMessage, SlashMDSettings, TextEdit, ThemeOverrides } from '../types';
 
 // Simple diff algorithm to find the changed region between two strings
@@ -40,6 +41,30 @@ function computeMinimalEdits(oldText: string, newText: string): TextEdit[] {
   }];
 }
 
+// Map the `slashmd.format.*` settings to serializer options. `auto` is left
+// unset so the style detected in the opened file is used instead.
+function getFormatOptions(settings: SlashMDSettings | null): StringifyOptions {
+  if (!settings) return {};
+
+  const auto = <T extends string>(value: T | 'auto'): T | undefined => (value === 'auto' ? undefined : value);
+
+  return {
+    wrapWidth: settings.formatWrap,
+    preserveLineBreaks: settings.formatPreserveLineBreaks,
+    bulletStyle: auto(settings.formatBullet),
+    emphasisStyle: auto(settings.formatEmphasis),
+    strongStyle: auto(settings.formatStrong),
+    fenceStyle: auto(settings.formatFence),
+    fenceLength: settings.formatFenceLength || undefined,
+    ruleStyle: auto(settings.formatRule),
+    orderedListNumbering: auto(settings.formatOrderedList),
+    listIndent: auto(settings.formatListIndent),
+    breakStyle: auto(settings.formatLineBreak),
+    calloutStyle: settings.calloutsStyle,
+    toggleSyntax: settings.togglesSyntax,
+  };
+}
+
 export function App() {
   const [content, setContent] = useState<string | null>(null);
   const [settings, setSettings] = useState<SlashMDSettings | null>(null);
@@ -106,6 +131,8 @@ export function App() {
     }
   }, [themeOverrides]);
 
+  const formatOptions = useMemo(() => getFormatOptions(settings), [settings]);
+
   const handleChange = useCallback((markdown: string) => {
     // Calculate diff and send minimal edits
     const edits = computeMinimalEdits(lastDocumentContent.current, markdown);
@@ -145,6 +172,11 @@ export function App() {
         assetBaseUri={assetBaseUri}
         documentDirUri={documentDirUri}
         imagePathResolution={settings?.imagePathResolution ?? 'document'}
+        mathEnabled={settings?.mathEnabled ?? false}
+        mermaidEnabled={settings?.mermaidEnabled ?? false}
+        commentsVisible={settings?.commentsVisible ?? true}
+        pasteDelimited={settings?.tablesPasteDelimited ?? 'table'}
+        formatOptions={formatOptions}
       />
     </div>
   );
@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNearestNodeFromDOMNode } from 'lexical';
+import { $isCalloutNode } from './nodes';
+
+/**
+ * Plugin that folds and unfolds `[!type]-`/`[!type]+` callouts when their
+ * header is clicked.
+ */
+export function CalloutPlugin(): null {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    const rootElement = editor.getRootElement();
+    if (!rootElement) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const target = event.target as HTMLElement;
+
+      // The header is drawn by the callout itself, so clicks on it land there
+      if (!target.classList.contains('callout') || !target.hasAttribute('data-callout-fold')) return;
+
+      // Only the header row, above the first child, toggles
+      const first = target.firstElementChild as HTMLElement | null;
+      const folded = target.getAttribute('data-callout-fold') === '-';
+      if (!folded && first && event.clientY >= first.getBoundingClientRect().top) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+
+      editor.update(() => {
+        const node = $getNearestNodeFromDOMNode(target);
+        if ($isCalloutNode(node)) {
+          node.toggleFolded();
+        }
+      });
+    };
+
+    rootElement.addEventListener('click', handleClick);
+
+    return () => {
+      rootElement.removeEventListener('click', handleClick);
+    };
+  }, [editor]);
+
+  return null;
+}
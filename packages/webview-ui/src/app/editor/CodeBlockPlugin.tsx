@@ -2,6 +2,7 @@ import { useCallback, useEffect, useState, useRef, useMemo } from 'react';
 import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
 import { $getRoot, $getNodeByKey, $isElementNode, LexicalNode } from 'lexical';
 import { $isCodeNode, CodeNode } from '@lexical/code';
+import { $isMarkdownCodeNode, CodeMeta, parseCodeMeta, updateCodeMeta } from './nodes';
 
 // Shared helper to recursively find all code nodes in a tree
 function findCodeNodesInTree(node: LexicalNode): CodeNode[] {
@@ -68,6 +69,12 @@ function LanguageSelector({ nodeKey, currentLanguage, position, onClose }: Langu
   const [searchQuery, setSearchQuery] = useState('');
   const menuRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const [metaDraft, setMetaDraft] = useState<CodeMeta>(() =>
+    editor.getEditorState().read(() => {
+      const node = $getNodeByKey(nodeKey);
+      return parseCodeMeta($isMarkdownCodeNode(node) ? node.getMeta() : null);
+    })
+  );
 
   const filteredLanguages = LANGUAGES.filter(
     (lang) =>
@@ -101,6 +108,10 @@ function LanguageSelector({ nodeKey, currentLanguage, position, onClose }: Langu
             // Use 'plain' for Plain Text - it's a valid Prism language with no highlighting
             // This avoids Lexical's transform that resets undefined/null languages to 'javascript'
             node.setLanguage(language);
+            // The picked language replaces the one the fence was written with
+            if ($isMarkdownCodeNode(node)) {
+              node.setInfoLanguage(null);
+            }
           }
         },
         {
@@ -114,6 +125,20 @@ function LanguageSelector({ nodeKey, currentLanguage, position, onClose }: Langu
     [editor, nodeKey, onClose]
   );
 
+  // Title and highlighted lines apply as they are typed
+  const changeMeta = useCallback(
+    (changes: Partial<CodeMeta>) => {
+      setMetaDraft((prev) => ({ ...prev, ...changes }));
+      editor.update(() => {
+        const node = $getNodeByKey(nodeKey);
+        if ($isMarkdownCodeNode(node)) {
+          node.setMeta(updateCodeMeta(node.getMeta(), changes));
+        }
+      });
+    },
+    [editor, nodeKey]
+  );
+
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       if (e.key === 'Escape') {
@@ -176,6 +201,30 @@ function LanguageSelector({ nodeKey, currentLanguage, position, onClose }: Langu
           })
         )}
       </div>
+      <div className="code-meta-fields">
+        <label className="code-meta-field">
+          <span>Title</span>
+          <input
+            type="text"
+            className="code-meta-input"
+            placeholder="app.ts"
+            value={metaDraft.title ?? ''}
+            onChange={(e) => changeMeta({ title: e.target.value })}
+            onKeyDown={handleKeyDown}
+          />
+        </label>
+        <label className="code-meta-field">
+          <span>Highlight lines</span>
+          <input
+            type="text"
+            className="code-meta-input"
+            placeholder="3-5,8"
+            value={metaDraft.highlight ?? ''}
+            onChange={(e) => changeMeta({ highlight: e.target.value })}
+            onKeyDown={handleKeyDown}
+          />
+        </label>
+      </div>
     </div>
   );
 }
@@ -210,7 +259,7 @@ export function CodeBlockPlugin() {
         for (const node of codeNodes) {
           nodeData.push({
             nodeKey: node.getKey(),
-            language: node.getLanguage() || '',
+            language: ($isMarkdownCodeNode(node) ? node.getInfoLanguage() : null) || node.getLanguage() || '',
             textContent: node.getTextContent(),
           });
         }
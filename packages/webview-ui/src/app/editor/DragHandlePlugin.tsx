@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
 import { $getNodeByKey, $getSelection, $isRangeSelection, $createParagraphNode } from 'lexical';
+import { $getContinuedStart, $isMarkdownListNode } from './nodes';
 
 interface DragHandleState {
   isVisible: boolean;
@@ -57,6 +58,116 @@ function getNodeKeyFromBlockElement(element: HTMLElement): string | null {
   return null;
 }
 
+interface ListNumberingMenuProps {
+  nodeKey: string;
+  position: { top: number; left: number };
+  onClose: () => void;
+}
+
+// Numbering actions for a numbered list, opened by clicking its drag handle
+function ListNumberingMenu({ nodeKey, position, onClose }: ListNumberingMenuProps) {
+  const [editor] = useLexicalComposerContext();
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [list] = useState(() =>
+    editor.getEditorState().read(() => {
+      const node = $getNodeByKey(nodeKey);
+      return $isMarkdownListNode(node)
+        ? { start: node.getStart(), continues: node.continuesNumbering(), canContinue: $getContinuedStart(node) !== null }
+        : null;
+    })
+  );
+  const [startDraft, setStartDraft] = useState(String(list?.start ?? 1));
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  // Close on escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const restartNumbering = useCallback(() => {
+    const start = parseInt(startDraft, 10);
+    if (Number.isNaN(start) || start < 0) return;
+
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+      if ($isMarkdownListNode(node)) {
+        node.setContinuesNumbering(false);
+        node.setStart(start);
+      }
+    });
+    onClose();
+  }, [editor, nodeKey, startDraft, onClose]);
+
+  const continueNumbering = useCallback(() => {
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+      if ($isMarkdownListNode(node)) {
+        // The list transform picks up the number to continue from
+        node.setContinuesNumbering(true);
+      }
+    });
+    onClose();
+  }, [editor, nodeKey, onClose]);
+
+  if (!list) return null;
+
+  return (
+    <div
+      ref={menuRef}
+      className="list-numbering-menu"
+      style={{
+        position: 'fixed',
+        top: position.top,
+        left: position.left,
+      }}
+    >
+      <div className="list-numbering-header">Numbering</div>
+      <div className="list-numbering-restart">
+        <span>Restart numbering at</span>
+        <input
+          className="list-numbering-input"
+          type="number"
+          min={0}
+          value={startDraft}
+          autoFocus
+          onChange={(e) => setStartDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              restartNumbering();
+            }
+          }}
+        />
+        <button className="list-numbering-button" onClick={restartNumbering}>
+          Set
+        </button>
+      </div>
+      {list.canContinue && !list.continues && (
+        <button className="list-numbering-button list-numbering-continue" onClick={continueNumbering}>
+          Continue previous numbering
+        </button>
+      )}
+    </div>
+  );
+}
+
 export function DragHandlePlugin() {
   const [editor] = useLexicalComposerContext();
   const [dragState, setDragState] = useState<DragHandleState>({
@@ -71,6 +182,7 @@ export function DragHandlePlugin() {
   const dropTargetKey = useRef<string | null>(null);
   const dropPosition = useRef<'before' | 'after'>('after');
   const handleRef = useRef<HTMLDivElement | null>(null);
+  const [numberingMenu, setNumberingMenu] = useState<{ nodeKey: string; position: { top: number; left: number } } | null>(null);
   // Use ref to access isDragging in event handlers without causing re-registration
   const isDraggingRef = useRef(false);
   isDraggingRef.current = isDragging;
@@ -277,6 +389,23 @@ export function DragHandlePlugin() {
     dropTargetKey.current = null;
   };
 
+  // Numbered lists get a numbering menu when their handle is clicked
+  const handleClick = useCallback(() => {
+    const nodeKey = dragState.nodeKey;
+    if (!nodeKey || !handleRef.current) return;
+
+    const isNumberedList = editor.getEditorState().read(() => {
+      const node = $getNodeByKey(nodeKey);
+      return $isMarkdownListNode(node) && node.getListType() === 'number';
+    });
+    if (!isNumberedList) return;
+
+    const rect = handleRef.current.getBoundingClientRect();
+    setNumberingMenu({ nodeKey, position: { top: rect.bottom + 4, left: rect.left } });
+  }, [editor, dragState.nodeKey]);
+
+  const closeNumberingMenu = useCallback(() => setNumberingMenu(null), []);
+
   const handleDelete = useCallback(() => {
     if (!dragState.nodeKey) return;
 
@@ -324,6 +453,7 @@ export function DragHandlePlugin() {
             draggable
             onDragStart={handleDragStart}
             onDragEnd={handleDragEnd}
+            onClick={handleClick}
             aria-label="Drag to reorder block"
             role="button"
             tabIndex={0}
@@ -349,6 +479,14 @@ export function DragHandlePlugin() {
           </button>
         </>
       )}
+      {numberingMenu && (
+        <ListNumberingMenu
+          key={numberingMenu.nodeKey}
+          nodeKey={numberingMenu.nodeKey}
+          position={numberingMenu.position}
+          onClose={closeNumberingMenu}
+        />
+      )}
       {dropIndicator && (
         <div
           className="drop-indicator"
@@ -11,11 +11,7 @@ import { TabIndentationPlugin } from '@lexical/react/LexicalTabIndentationPlugin
 import { LinkPlugin } from '@lexical/react/LexicalLinkPlugin';
 import { TablePlugin } from '@lexical/react/LexicalTablePlugin';
 import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
-import { HeadingNode, QuoteNode } from '@lexical/rich-text';
-import { ListNode, ListItemNode } from '@lexical/list';
-import { CodeNode, CodeHighlightNode, registerCodeHighlighting } from '@lexical/code';
-import { LinkNode, AutoLinkNode } from '@lexical/link';
-import { TableNode, TableRowNode, TableCellNode } from '@lexical/table';
+import { registerCodeHighlighting } from '@lexical/code';
 import { EditorState, LexicalEditor } from 'lexical';
 
 import { Toolbar } from './Toolbar';
@@ -23,24 +19,20 @@ import { SlashMenuPlugin } from './SlashMenuPlugin';
 import { DragHandlePlugin } from './DragHandlePlugin';
 import { MarkdownShortcutsPlugin } from './MarkdownShortcutsPlugin';
 import { TableActionsPlugin } from './TableActionsPlugin';
+import { TablePastePlugin, PasteDelimitedMode } from './TablePastePlugin';
 import { CodeBlockPlugin } from './CodeBlockPlugin';
 import { TogglePlugin } from './TogglePlugin';
+import { CalloutPlugin } from './CalloutPlugin';
+import { FootnotePlugin } from './FootnotePlugin';
 import { ImagePlugin } from './ImagePlugin';
 import { BlockClickPlugin } from './BlockClickPlugin';
 import { SearchPlugin } from './SearchPlugin';
 import { AssetContext, createAssetContextValue } from './AssetContext';
-import {
-  CalloutNode,
-  ToggleContainerNode,
-  ToggleTitleNode,
-  ToggleContentNode,
-  ImageNode,
-  HorizontalRuleNode,
-} from './nodes';
-import { importMarkdownToLexical } from '../mapper/mdastToLexical';
-import { exportLexicalToMdast } from '../mapper/lexicalToMdast';
-import { parseMarkdown } from '../../markdown/parse';
-import { stringifyMarkdown } from '../../markdown/stringify';
+import { editorNodes } from './editorNodes';
+import { importMarkdownToLexical, ImportOptions } from '../mapper/mdastToLexical';
+import { captureBlockBaselines, exportLexicalToMarkdown, SourceMap } from '../mapper/sourceMap';
+import { parseMarkdown, ParseOptions } from '../../markdown/parse';
+import type { StringifyOptions } from '../../markdown/stringify';
 import type { ImagePathResolution } from '../../types';
 
 interface EditorProps {
@@ -49,8 +41,19 @@ interface EditorProps {
   assetBaseUri?: string;
   documentDirUri?: string;
   imagePathResolution?: ImagePathResolution;
+  mathEnabled?: boolean;
+  mermaidEnabled?: boolean;
+  // Show `<!-- comments -->` as faint annotations; hidden otherwise
+  commentsVisible?: boolean;
+  // What pasting spreadsheet or CSV data outside a table does
+  pasteDelimited?: PasteDelimitedMode;
+  // How edited blocks are written back (wrapping, bullet style, ...)
+  formatOptions?: StringifyOptions;
 }
 
+// Settings that change how markdown is read and written
+type MarkdownOptions = ParseOptions & ImportOptions;
+
 const editorTheme = {
   paragraph: 'editor-paragraph',
   heading: {
@@ -59,6 +62,7 @@ const editorTheme = {
     h3: 'editor-heading-h3',
     h4: 'editor-heading-h4',
     h5: 'editor-heading-h5',
+    h6: 'editor-heading-h6',
   },
   list: {
     ul: 'editor-list-ul',
@@ -115,6 +119,9 @@ const editorTheme = {
     strikethrough: 'editor-text-strikethrough',
     code: 'editor-text-code',
     underline: 'editor-text-underline',
+    highlight: 'editor-text-highlight',
+    superscript: 'editor-text-superscript',
+    subscript: 'editor-text-subscript',
   },
 };
 
@@ -122,25 +129,6 @@ function editorOnError(error: Error): void {
   console.error('Lexical error:', error);
 }
 
-const editorNodes = [
-  HeadingNode,
-  QuoteNode,
-  ListNode,
-  ListItemNode,
-  CodeNode,
-  CodeHighlightNode,
-  LinkNode,
-  AutoLinkNode,
-  TableNode,
-  TableRowNode,
-  TableCellNode,
-  CalloutNode,
-  ToggleContainerNode,
-  ToggleTitleNode,
-  ToggleContentNode,
-  ImageNode,
-  HorizontalRuleNode,
-];
 
 // Plugin to enable syntax highlighting in code blocks
 function CodeHighlightPlugin() {
@@ -154,7 +142,15 @@ function CodeHighlightPlugin() {
 }
 
 // Plugin to initialize editor with markdown content
-function InitializePlugin({ content }: { content: string }) {
+function InitializePlugin({
+  content,
+  options,
+  sourceMapRef,
+}: {
+  content: string;
+  options: MarkdownOptions;
+  sourceMapRef: React.MutableRefObject<SourceMap | null>;
+}) {
   const [editor] = useLexicalComposerContext();
   const hasInitialized = useRef(false);
 
@@ -163,10 +159,10 @@ function InitializePlugin({ content }: { content: string }) {
     hasInitialized.current = true;
 
     if (content) {
-      const { root } = parseMarkdown(content);
-      importMarkdownToLexical(editor, root);
+      const { root } = parseMarkdown(content, options);
+      sourceMapRef.current = importMarkdownToLexical(editor, root, content, options);
     }
-  }, [editor, content]);
+  }, [editor, content, options, sourceMapRef]);
 
   return null;
 }
@@ -209,15 +205,29 @@ function simpleHash(str: string): number {
 // Plugin to handle content updates from extension host
 function ExternalUpdatePlugin({
   content,
+  options,
   lastInternalUpdate,
+  sourceMapRef,
 }: {
   content: string;
+  options: MarkdownOptions;
   lastInternalUpdate: React.MutableRefObject<number>;
+  sourceMapRef: React.MutableRefObject<SourceMap | null>;
 }) {
   const [editor] = useLexicalComposerContext();
   const lastContentHashRef = useRef<number>(0);
+  const lastOptionsRef = useRef(options);
 
   useEffect(() => {
+    // New format settings change how every block serializes; compare against
+    // baselines taken with them so untouched blocks are still written as they are
+    if (options !== lastOptionsRef.current) {
+      lastOptionsRef.current = options;
+      if (sourceMapRef.current) {
+        captureBlockBaselines(editor, sourceMapRef.current, options);
+      }
+    }
+
     // Skip if this is our own update echoing back
     const timeSinceUpdate = Date.now() - lastInternalUpdate.current;
     if (timeSinceUpdate < 500) {
@@ -231,9 +241,9 @@ function ExternalUpdatePlugin({
     }
     lastContentHashRef.current = contentHash;
 
-    const { root } = parseMarkdown(content);
-    importMarkdownToLexical(editor, root);
-  }, [editor, content, lastInternalUpdate]);
+    const { root } = parseMarkdown(content, options);
+    sourceMapRef.current = importMarkdownToLexical(editor, root, content, options);
+  }, [editor, content, options, lastInternalUpdate, sourceMapRef]);
 
   return null;
 }
@@ -241,11 +251,29 @@ function ExternalUpdatePlugin({
 // Debounce delay in ms - balances responsiveness with performance
 const DEBOUNCE_DELAY = 100;
 
-export function Editor({ initialContent, onChange, assetBaseUri, documentDirUri, imagePathResolution }: EditorProps) {
+export function Editor({
+  initialContent,
+  onChange,
+  assetBaseUri,
+  documentDirUri,
+  imagePathResolution,
+  mathEnabled = false,
+  mermaidEnabled = false,
+  commentsVisible = true,
+  pasteDelimited = 'table',
+  formatOptions,
+}: EditorProps) {
   const lastInternalUpdate = useRef<number>(0);
   const currentContentRef = useRef<string>(initialContent);
   const debounceTimerRef = useRef<number | null>(null);
   const pendingEditorRef = useRef<LexicalEditor | null>(null);
+  // Source positions of imported blocks, so untouched blocks are written back verbatim
+  const sourceMapRef = useRef<SourceMap | null>(null);
+
+  const markdownOptions = useMemo<MarkdownOptions>(
+    () => ({ ...formatOptions, mathEnabled, mermaidEnabled }),
+    [formatOptions, mathEnabled, mermaidEnabled]
+  );
 
   const assetContextValue = useMemo(
     () => createAssetContextValue({ assetBaseUri, documentDirUri, imagePathResolution }),
@@ -277,8 +305,7 @@ export function Editor({ initialContent, onChange, assetBaseUri, documentDirUri,
         const pendingEditor = pendingEditorRef.current;
         if (!pendingEditor) return;
 
-        const mdast = exportLexicalToMdast(pendingEditor);
-        const markdown = stringifyMarkdown(mdast);
+        const markdown = exportLexicalToMarkdown(pendingEditor, sourceMapRef.current, markdownOptions);
 
         // Only notify if content actually changed
         if (markdown !== currentContentRef.current) {
@@ -288,7 +315,7 @@ export function Editor({ initialContent, onChange, assetBaseUri, documentDirUri,
         }
       }, DEBOUNCE_DELAY);
     },
-    [onChange]
+    [onChange, markdownOptions]
   );
 
   const initialConfig = {
@@ -301,7 +328,7 @@ export function Editor({ initialContent, onChange, assetBaseUri, documentDirUri,
   return (
     <AssetContext.Provider value={assetContextValue}>
       <LexicalComposer initialConfig={initialConfig}>
-        <div className="editor-container">
+        <div className={`editor-container${commentsVisible ? '' : ' hide-comments'}`}>
           <div className="editor-inner">
             <RichTextPlugin
               contentEditable={
@@ -322,18 +349,23 @@ export function Editor({ initialContent, onChange, assetBaseUri, documentDirUri,
             <TablePlugin />
             <CodeHighlightPlugin />
             <OnChangePlugin onChange={handleChange} ignoreSelectionChange />
-            <InitializePlugin content={initialContent} />
+            <InitializePlugin content={initialContent} options={markdownOptions} sourceMapRef={sourceMapRef} />
             <AutoFocusPlugin />
             <ExternalUpdatePlugin
               content={initialContent}
+              options={markdownOptions}
               lastInternalUpdate={lastInternalUpdate}
+              sourceMapRef={sourceMapRef}
             />
-            <SlashMenuPlugin />
+            <SlashMenuPlugin mathEnabled={mathEnabled} mermaidEnabled={mermaidEnabled} />
             <DragHandlePlugin />
             <MarkdownShortcutsPlugin />
             <TableActionsPlugin />
+            <TablePastePlugin pasteDelimited={pasteDelimited} />
             <CodeBlockPlugin />
             <TogglePlugin />
+            <CalloutPlugin />
+            <FootnotePlugin />
             <ImagePlugin />
             <BlockClickPlugin />
             <Toolbar />
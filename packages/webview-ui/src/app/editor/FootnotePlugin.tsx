@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, $nodesOfType, NodeKey } from 'lexical';
+import { $getFootnoteNumbers, FootnoteDefinitionNode } from './nodes';
+
+interface FootnoteEntry {
+  key: NodeKey;
+  number: number;
+  text: string;
+}
+
+function sameEntries(a: FootnoteEntry[], b: FootnoteEntry[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((entry, i) => entry.key === b[i].key && entry.number === b[i].number && entry.text === b[i].text)
+  );
+}
+
+/**
+ * Label each footnote definition with its current number. Numbers follow the
+ * order of the references, so they are recomputed after every update;
+ * definitions nothing refers to are marked as unused.
+ *
+ * Definitions are edited where they are written, which may be anywhere in
+ * the document. Below the document the plugin also shows every footnote in
+ * number order, the way they are rendered at the end of the page; clicking
+ * one jumps to its definition.
+ */
+export function FootnotePlugin() {
+  const [editor] = useLexicalComposerContext();
+  const [entries, setEntries] = useState<FootnoteEntry[]>([]);
+
+  useEffect(() => {
+    return editor.registerUpdateListener(({ editorState }) => {
+      editorState.read(() => {
+        const numbers = $getFootnoteNumbers();
+        const next: FootnoteEntry[] = [];
+
+        for (const definition of $nodesOfType(FootnoteDefinitionNode)) {
+          const number = numbers.get(definition.getIdentifier());
+          // The first definition of a label is the one references point at
+          if (number !== undefined && !next.some((entry) => entry.number === number)) {
+            next.push({ key: definition.getKey(), number, text: definition.getTextContent() });
+          }
+
+          const element = editor.getElementByKey(definition.getKey());
+          if (!element) continue;
+
+          element.setAttribute('data-number', number !== undefined ? String(number) : definition.getLabel());
+          element.classList.toggle('unused', number === undefined);
+        }
+
+        next.sort((a, b) => a.number - b.number);
+        setEntries((previous) => (sameEntries(previous, next) ? previous : next));
+      });
+    });
+  }, [editor]);
+
+  const goToDefinition = (key: NodeKey) => {
+    editor.getElementByKey(key)?.scrollIntoView({ block: 'center' });
+    editor.update(() => {
+      $getNodeByKey(key)?.selectStart();
+    });
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <section className="footnotes-section" aria-label="Footnotes">
+      <ol>
+        {entries.map((entry) => (
+          <li key={entry.key} value={entry.number}>
+            <button type="button" className="footnotes-section-item" onClick={() => goToDefinition(entry.key)}>
+              {entry.text || <em>Empty footnote</em>}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
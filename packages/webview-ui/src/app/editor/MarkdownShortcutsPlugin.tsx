@@ -9,6 +9,9 @@ import {
   QUOTE,
   CODE,
 } from '@lexical/markdown';
+import { mergeRegister } from '@lexical/utils';
+import { $getSelection, $isRangeSelection, COMMAND_PRIORITY_LOW, KEY_MODIFIER_COMMAND } from 'lexical';
+import { $getTextBlockType, $setTextBlockType, HEADING_TAGS } from './utils';
 
 /**
  * Plugin that enables markdown shortcuts for common block types.
@@ -17,24 +20,46 @@ import {
  * - "- " or "* " → Bulleted list
  * - "1. " → Numbered list
  * - "[] " or "[ ] " → Todo/checkbox list
- * - "# ", "## ", "### " → Headings
+ * - "# " through "###### " → Headings
  * - "> " → Block quote
  * - "```" → Code block
+ * - Cmd/Ctrl+Alt+1…6 → Heading 1–6 (again to turn it back into text)
  */
 export function MarkdownShortcutsPlugin(): null {
   const [editor] = useLexicalComposerContext();
 
   useEffect(() => {
-    // Register only element transformers for block-level shortcuts
-    // We skip text format transformers (bold, italic) since we have a toolbar for those
-    return registerMarkdownShortcuts(editor, [
-      UNORDERED_LIST,
-      ORDERED_LIST,
-      CHECK_LIST,
-      HEADING,
-      QUOTE,
-      CODE,
-    ]);
+    return mergeRegister(
+      // Register only element transformers for block-level shortcuts
+      // We skip text format transformers (bold, italic) since we have a toolbar for those
+      registerMarkdownShortcuts(editor, [
+        UNORDERED_LIST,
+        ORDERED_LIST,
+        CHECK_LIST,
+        HEADING,
+        QUOTE,
+        CODE,
+      ]),
+      editor.registerCommand(
+        KEY_MODIFIER_COMMAND,
+        (event: KeyboardEvent) => {
+          // Alt changes `key` on macOS, so match the physical digit key
+          const level = /^Digit([1-6])$/.exec(event.code)?.[1];
+          if (!level || !(event.metaKey || event.ctrlKey) || !event.altKey || event.shiftKey) {
+            return false;
+          }
+
+          const selection = $getSelection();
+          if (!$isRangeSelection(selection)) return false;
+
+          event.preventDefault();
+          const tag = HEADING_TAGS[Number(level) - 1];
+          $setTextBlockType(selection, $getTextBlockType(selection) === tag ? 'paragraph' : tag);
+          return true;
+        },
+        COMMAND_PRIORITY_LOW
+      )
+    );
   }, [editor]);
 
   return null;
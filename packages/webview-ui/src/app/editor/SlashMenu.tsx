@@ -3,6 +3,7 @@ import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext
 import {
   $createParagraphNode,
   $createTextNode,
+  $getRoot,
   $getSelection,
   $isRangeSelection,
   TextNode,
@@ -11,7 +12,20 @@ import {
 import { $createHeadingNode, $createQuoteNode } from '@lexical/rich-text';
 import { $createListNode, $createListItemNode } from '@lexical/list';
 import { $createCodeNode } from '@lexical/code';
-import { $createHorizontalRuleNode, $createCalloutNode, $createToggleNode } from './nodes';
+import {
+  $createHorizontalRuleNode,
+  $createCalloutNode,
+  $createToggleNode,
+  $createFrontmatterNode,
+  $isFrontmatterNode,
+  $createBlockMathNode,
+  $createInlineMathNode,
+  $createMermaidNode,
+  $createCommentNode,
+  $createFootnoteRefNode,
+  $createFootnoteDefinitionNode,
+  $getNextFootnoteIdentifier,
+} from './nodes';
 import {
   $createTableNode,
   $createTableRowNode,
@@ -26,6 +40,8 @@ interface BlockOption {
   description: string;
   icon: string;
   keywords: string[];
+  // Only offered when the matching setting is on
+  requires?: 'math' | 'mermaid';
   onSelect: (editor: LexicalEditor) => void;
 }
 
@@ -33,6 +49,8 @@ interface SlashMenuProps {
   isOpen: boolean;
   position: { top: number; left: number } | null;
   query: string;
+  mathEnabled: boolean;
+  mermaidEnabled: boolean;
   onClose: () => void;
 }
 
@@ -102,6 +120,54 @@ const BLOCK_OPTIONS: BlockOption[] = [
       });
     },
   },
+  {
+    key: 'heading4',
+    label: 'Heading 4',
+    description: 'Subsection heading',
+    icon: 'H4',
+    keywords: ['h4', 'heading', 'subsection'],
+    onSelect: (editor) => {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          const node = $createHeadingNode('h4');
+          selection.insertNodes([node]);
+        }
+      });
+    },
+  },
+  {
+    key: 'heading5',
+    label: 'Heading 5',
+    description: 'Minor heading',
+    icon: 'H5',
+    keywords: ['h5', 'heading', 'minor'],
+    onSelect: (editor) => {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          const node = $createHeadingNode('h5');
+          selection.insertNodes([node]);
+        }
+      });
+    },
+  },
+  {
+    key: 'heading6',
+    label: 'Heading 6',
+    description: 'Smallest heading',
+    icon: 'H6',
+    keywords: ['h6', 'heading', 'smallest'],
+    onSelect: (editor) => {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          const node = $createHeadingNode('h6');
+          selection.insertNodes([node]);
+        }
+      });
+    },
+  },
   {
     key: 'bulletList',
     label: 'Bullet List',
@@ -188,6 +254,80 @@ const BLOCK_OPTIONS: BlockOption[] = [
       });
     },
   },
+  {
+    key: 'math',
+    label: 'Math Block',
+    description: 'Display equation (TeX)',
+    icon: '∑',
+    keywords: ['math', 'equation', 'latex', 'tex', 'katex', 'formula'],
+    requires: 'math',
+    onSelect: (editor) => {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          const node = $createBlockMathNode('');
+          selection.insertNodes([node]);
+        }
+      });
+    },
+  },
+  {
+    key: 'inlineMath',
+    label: 'Inline Math',
+    description: 'Equation within text',
+    icon: '$',
+    keywords: ['math', 'inline', 'equation', 'latex', 'tex', 'formula'],
+    requires: 'math',
+    onSelect: (editor) => {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          const node = $createInlineMathNode('');
+          selection.insertNodes([node]);
+        }
+      });
+    },
+  },
+  {
+    key: 'footnote',
+    label: 'Footnote',
+    description: 'Numbered note at the end of the page',
+    icon: '¹',
+    keywords: ['footnote', 'note', 'reference', 'citation', 'cite'],
+    onSelect: (editor) => {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          const identifier = $getNextFootnoteIdentifier();
+          selection.insertNodes([$createFootnoteRefNode(identifier)]);
+
+          // New definitions go at the end of the document; continue typing there
+          const paragraph = $createParagraphNode();
+          const definition = $createFootnoteDefinitionNode(identifier);
+          definition.append(paragraph);
+          $getRoot().append(definition);
+          paragraph.select();
+        }
+      });
+    },
+  },
+  {
+    key: 'mermaid',
+    label: 'Diagram',
+    description: 'Mermaid flowchart, sequence, ...',
+    icon: '◇',
+    keywords: ['mermaid', 'diagram', 'flowchart', 'chart', 'graph', 'sequence'],
+    requires: 'mermaid',
+    onSelect: (editor) => {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          const node = $createMermaidNode('');
+          selection.insertNodes([node]);
+        }
+      });
+    },
+  },
   {
     key: 'divider',
     label: 'Divider',
@@ -262,6 +402,22 @@ const BLOCK_OPTIONS: BlockOption[] = [
       });
     },
   },
+  {
+    key: 'comment',
+    label: 'Comment',
+    description: 'Hidden <!-- comment -->',
+    icon: '✎',
+    keywords: ['comment', 'html', 'hidden', 'marker', 'toc', 'prettier-ignore'],
+    onSelect: (editor) => {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          const node = $createCommentNode();
+          selection.insertNodes([node]);
+        }
+      });
+    },
+  },
   {
     key: 'toggle',
     label: 'Toggle',
@@ -320,20 +476,46 @@ const BLOCK_OPTIONS: BlockOption[] = [
       });
     },
   },
+  {
+    key: 'properties',
+    label: 'Properties',
+    description: 'Front matter at the top of the page',
+    icon: '☰',
+    keywords: ['properties', 'frontmatter', 'front matter', 'metadata', 'yaml'],
+    onSelect: (editor) => {
+      editor.update(() => {
+        // Front matter only exists once, at the very start of the document
+        const root = $getRoot();
+        if ($isFrontmatterNode(root.getFirstChild())) return;
+
+        const node = $createFrontmatterNode('yaml', '');
+        const firstChild = root.getFirstChild();
+        if (firstChild) {
+          firstChild.insertBefore(node);
+        } else {
+          root.append(node);
+        }
+      });
+    },
+  },
 ];
 
-export function SlashMenu({ isOpen, position, query, onClose }: SlashMenuProps) {
+export function SlashMenu({ isOpen, position, query, mathEnabled, mermaidEnabled, onClose }: SlashMenuProps) {
   const [editor] = useLexicalComposerContext();
   const [selectedIndex, setSelectedIndex] = useState(0);
   const listRef = useRef<HTMLUListElement>(null);
 
   const filteredOptions = useMemo(() => {
-    if (!query) return BLOCK_OPTIONS;
+    const options = BLOCK_OPTIONS.filter(
+      (option) =>
+        (option.requires !== 'math' || mathEnabled) && (option.requires !== 'mermaid' || mermaidEnabled)
+    );
+    if (!query) return options;
 
     const lowerQuery = query.toLowerCase();
 
     // Filter and score options
-    const scored = BLOCK_OPTIONS
+    const scored = options
       .map((option) => {
         const labelLower = option.label.toLowerCase();
         let score = 0;
@@ -365,7 +547,7 @@ export function SlashMenu({ isOpen, position, query, onClose }: SlashMenuProps)
       .sort((a, b) => b.score - a.score);
 
     return scored.map(({ option }) => option);
-  }, [query]);
+  }, [query, mathEnabled, mermaidEnabled]);
 
   useEffect(() => {
     setSelectedIndex(0);
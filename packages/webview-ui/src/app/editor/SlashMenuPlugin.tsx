@@ -25,7 +25,12 @@ function positionsEqual(
   return Math.abs(a.top - b.top) < 1 && Math.abs(a.left - b.left) < 1;
 }
 
-export function SlashMenuPlugin() {
+interface SlashMenuPluginProps {
+  mathEnabled?: boolean;
+  mermaidEnabled?: boolean;
+}
+
+export function SlashMenuPlugin({ mathEnabled = false, mermaidEnabled = false }: SlashMenuPluginProps) {
   const [editor] = useLexicalComposerContext();
   const [menuState, setMenuState] = useState<MenuState>({
     isOpen: false,
@@ -207,6 +212,8 @@ export function SlashMenuPlugin() {
       isOpen={menuState.isOpen}
       position={menuState.position}
       query={menuState.query}
+      mathEnabled={mathEnabled}
+      mermaidEnabled={mermaidEnabled}
       onClose={closeMenu}
     />
   );
@@ -3,19 +3,43 @@ import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext
 import {
   $createParagraphNode,
   $createTextNode,
+  $getNodeByKey,
   $getRoot,
+  $nodesOfType,
+  NodeKey,
 } from 'lexical';
+import { mergeRegister } from '@lexical/utils';
 import {
   $createTableCellNode,
   $createTableRowNode,
   $isTableCellNode,
   $isTableNode,
   $isTableRowNode,
+  applyTableHandlers,
+  HTMLTableElementWithWithTableSelectionState,
   TableCellNode,
   TableNode,
+  TableObserver,
   TableRowNode,
   TableCellHeaderStates,
 } from '@lexical/table';
+import {
+  $alignTableCell,
+  $getTableRows,
+  $keepTableCellInline,
+  $isMarkdownTableNode,
+  MarkdownTableNode,
+  TableAlign,
+} from './nodes';
+import { toCsv } from '../../markdown/csv';
+import { showError } from '../../messaging';
+
+const ALIGN_OPTIONS: { align: TableAlign; label: string; icon: string }[] = [
+  { align: 'left', label: 'Align left', icon: '⇤' },
+  { align: 'center', label: 'Align center', icon: '↔' },
+  { align: 'right', label: 'Align right', icon: '⇥' },
+  { align: null, label: 'No alignment', icon: '∅' },
+];
 
 interface TableActionsMenuProps {
   tableNode: TableNode;
@@ -164,6 +188,10 @@ function TableActionsMenu({ tableNode, rowIndex, colIndex, position, onClose }:
           }
         }
       }
+
+      if ($isMarkdownTableNode(tableNode)) {
+        tableNode.insertColumnAlign(colIndex);
+      }
     });
     onClose();
   }, [editor, tableNode, colIndex, onClose]);
@@ -190,6 +218,10 @@ function TableActionsMenu({ tableNode, rowIndex, colIndex, position, onClose }:
           }
         }
       }
+
+      if ($isMarkdownTableNode(tableNode)) {
+        tableNode.insertColumnAlign(colIndex + 1);
+      }
     });
     onClose();
   }, [editor, tableNode, colIndex, onClose]);
@@ -243,6 +275,10 @@ function TableActionsMenu({ tableNode, rowIndex, colIndex, position, onClose }:
           }
         }
       }
+
+      if ($isMarkdownTableNode(tableNode)) {
+        tableNode.removeColumnAlign(colIndex);
+      }
     });
     onClose();
   }, [editor, tableNode, colIndex, onClose]);
@@ -346,6 +382,10 @@ function TableActionsMenu({ tableNode, rowIndex, colIndex, position, onClose }:
           }
         }
       }
+
+      if ($isMarkdownTableNode(tableNode)) {
+        tableNode.moveColumnAlign(colIndex, colIndex - 1);
+      }
     });
     onClose();
   }, [editor, tableNode, colIndex, onClose]);
@@ -370,10 +410,38 @@ function TableActionsMenu({ tableNode, rowIndex, colIndex, position, onClose }:
           }
         }
       }
+
+      if ($isMarkdownTableNode(tableNode)) {
+        tableNode.moveColumnAlign(colIndex, colIndex + 1);
+      }
     });
     onClose();
   }, [editor, tableNode, colIndex, onClose]);
 
+  const columnAlign = editor.getEditorState().read(() =>
+    $isMarkdownTableNode(tableNode) ? tableNode.getColumnAlign(colIndex) : null
+  );
+
+  const setColumnAlign = useCallback(
+    (align: TableAlign) => {
+      editor.update(() => {
+        if ($isMarkdownTableNode(tableNode)) {
+          tableNode.setColumnAlign(colIndex, align);
+        }
+      });
+      onClose();
+    },
+    [editor, tableNode, colIndex, onClose]
+  );
+
+  const copyAsCsv = useCallback(() => {
+    const csv = editor.getEditorState().read(() => toCsv($getTableRows(tableNode)));
+    navigator.clipboard.writeText(csv).catch((err: unknown) => {
+      showError(`Could not copy the table: ${err instanceof Error ? err.message : String(err)}`);
+    });
+    onClose();
+  }, [editor, tableNode, onClose]);
+
   const deleteTable = useCallback(() => {
     editor.update(() => {
       tableNode.remove();
@@ -441,9 +509,27 @@ function TableActionsMenu({ tableNode, rowIndex, colIndex, position, onClose }:
           <span className="table-actions-icon">✕</span>
           Delete column
         </button>
+        <div className="table-actions-align" role="group" aria-label="Column alignment">
+          {ALIGN_OPTIONS.map(({ align, label, icon }) => (
+            <button
+              key={label}
+              className={`table-actions-align-button${columnAlign === align ? ' active' : ''}`}
+              title={label}
+              aria-label={label}
+              aria-pressed={columnAlign === align}
+              onClick={() => setColumnAlign(align)}
+            >
+              {icon}
+            </button>
+          ))}
+        </div>
       </div>
       <div className="table-actions-divider" />
       <div className="table-actions-section">
+        <button className="table-actions-button" onClick={copyAsCsv}>
+          <span className="table-actions-icon">⧉</span>
+          Copy as CSV
+        </button>
         <button className="table-actions-button table-actions-danger" onClick={deleteTable}>
           <span className="table-actions-icon">🗑</span>
           Delete table
@@ -462,6 +548,57 @@ export function TableActionsPlugin() {
     position: { top: number; left: number };
   } | null>(null);
 
+  // TablePlugin only sets up cell selection and keyboard handling for
+  // TableNode, so do the same for its MarkdownTableNode replacement. Cells
+  // also pick up their column's alignment whenever they change.
+  useEffect(() => {
+    const tableObservers = new Map<NodeKey, TableObserver>();
+
+    const initializeTable = (table: MarkdownTableNode) => {
+      const key = table.getKey();
+      const element = editor.getElementByKey(key);
+      if (element && !tableObservers.has(key)) {
+        const observer = applyTableHandlers(table, element as HTMLTableElementWithWithTableSelectionState, editor, true);
+        tableObservers.set(key, observer);
+      }
+    };
+
+    // Tables already in the document when the plugin mounts
+    editor.getEditorState().read(() => {
+      for (const table of $nodesOfType(MarkdownTableNode)) {
+        initializeTable(table);
+      }
+    });
+
+    const unregister = mergeRegister(
+      editor.registerMutationListener(MarkdownTableNode, (mutations) => {
+        for (const [key, mutation] of mutations) {
+          if (mutation === 'created') {
+            editor.getEditorState().read(() => {
+              const table = $getNodeByKey(key);
+              if ($isMarkdownTableNode(table)) {
+                initializeTable(table);
+              }
+            });
+          } else if (mutation === 'destroyed') {
+            tableObservers.get(key)?.removeListeners();
+            tableObservers.delete(key);
+          }
+        }
+      }),
+      editor.registerNodeTransform(TableCellNode, $alignTableCell),
+      // Keep lists, code and other blocks out of cells
+      editor.registerNodeTransform(TableCellNode, $keepTableCellInline)
+    );
+
+    return () => {
+      unregister();
+      for (const observer of tableObservers.values()) {
+        observer.removeListeners();
+      }
+    };
+  }, [editor]);
+
   useEffect(() => {
     const handleContextMenu = (e: MouseEvent) => {
       const target = e.target as HTMLElement;
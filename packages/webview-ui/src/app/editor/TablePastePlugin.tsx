@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import {
+  $getRoot,
+  $getSelection,
+  $isRangeSelection,
+  COMMAND_PRIORITY_LOW,
+  LexicalEditor,
+  PASTE_COMMAND,
+} from 'lexical';
+import { $isCodeNode } from '@lexical/code';
+import { $isTableCellNode } from '@lexical/table';
+import { $findMatchingParent, mergeRegister } from '@lexical/utils';
+import { addMessageHandler, showError } from '../../messaging';
+import { Delimiter, MAX_CELLS, parseDelimited } from '../../markdown/csv';
+import { $createTableFromRows, $fillTableCells } from './nodes';
+
+export type PasteDelimitedMode = 'table' | 'ask' | 'text';
+
+interface PendingPaste {
+  text: string;
+  rows: string[][];
+  position: { top: number; left: number };
+}
+
+interface TablePastePluginProps {
+  pasteDelimited: PasteDelimitedMode;
+}
+
+// Put rows at the selection: into the cells from the cursor when it is in a
+// table, otherwise as a new table
+function insertRows(editor: LexicalEditor, rows: string[][]): void {
+  editor.update(() => {
+    const selection = $getSelection();
+    if (!$isRangeSelection(selection)) {
+      $getRoot().append($createTableFromRows(rows));
+      return;
+    }
+
+    const cell = $findMatchingParent(selection.anchor.getNode(), $isTableCellNode);
+    if ($isTableCellNode(cell)) {
+      $fillTableCells(cell, rows).selectEnd();
+      return;
+    }
+
+    selection.insertNodes([$createTableFromRows(rows)]);
+  });
+}
+
+// Tab-separated text comes from a spreadsheet: it fills table cells and
+// otherwise follows the setting. Commas turn up in prose too, so
+// comma-separated text only becomes a table when the user picks it.
+function getPasteMode(delimiter: Delimiter, setting: PasteDelimitedMode, inTable: boolean): PasteDelimitedMode {
+  if (delimiter === '\t') {
+    return inTable ? 'table' : setting;
+  }
+  return setting === 'text' ? 'text' : 'ask';
+}
+
+function getCaretPosition(editor: LexicalEditor): { top: number; left: number } {
+  const domSelection = window.getSelection();
+  const rect =
+    domSelection && domSelection.rangeCount > 0
+      ? domSelection.getRangeAt(0).getBoundingClientRect()
+      : editor.getRootElement()?.getBoundingClientRect();
+  return { top: (rect?.bottom ?? 0) + 4, left: rect?.left ?? 0 };
+}
+
+/**
+ * Plugin that turns a pasted spreadsheet range (tab-separated text) into a
+ * table, or fills cells from the cursor when pasting into a table, and
+ * offers the same for comma-separated text. Also inserts tables from `.csv`
+ * files sent by the host.
+ */
+export function TablePastePlugin({ pasteDelimited }: TablePastePluginProps) {
+  const [editor] = useLexicalComposerContext();
+  const [pending, setPending] = useState<PendingPaste | null>(null);
+
+  useEffect(() => {
+    return mergeRegister(
+      editor.registerCommand(
+        PASTE_COMMAND,
+        (event) => {
+          if (!(event instanceof ClipboardEvent) || !event.clipboardData) return false;
+
+          // Content copied inside the editor keeps its own nodes
+          const clipboard = event.clipboardData;
+          if (clipboard.types.includes('application/x-lexical-editor')) return false;
+
+          const selection = $getSelection();
+          if (!$isRangeSelection(selection)) return false;
+
+          // CSV pasted into a code block stays text
+          const anchor = selection.anchor.getNode();
+          if ($findMatchingParent(anchor, $isCodeNode)) return false;
+
+          // Rich text from a web page or document pastes as itself; spreadsheets
+          // put their range on the clipboard as an HTML table
+          const html = clipboard.getData('text/html');
+          if (html && !/<table[\s>]/i.test(html)) return false;
+
+          const text = clipboard.getData('text/plain');
+          const parsed = parseDelimited(text);
+          if (!parsed) return false;
+
+          // A single line with commas is more likely a sentence than a row
+          if (parsed.delimiter === ',' && parsed.rows.length < 2) return false;
+
+          // One spreadsheet row fills cells, but takes a header and a row to make a table
+          const cell = $findMatchingParent(anchor, $isTableCellNode);
+          if (!$isTableCellNode(cell) && parsed.rows.length < 2) return false;
+
+          const mode = getPasteMode(parsed.delimiter, pasteDelimited, $isTableCellNode(cell));
+          if (mode === 'text') return false;
+
+          event.preventDefault();
+          if (mode === 'ask') {
+            setPending({ text, rows: parsed.rows, position: getCaretPosition(editor) });
+          } else if ($isTableCellNode(cell)) {
+            $fillTableCells(cell, parsed.rows).selectEnd();
+          } else {
+            selection.insertNodes([$createTableFromRows(parsed.rows)]);
+          }
+          return true;
+        },
+        COMMAND_PRIORITY_LOW
+      ),
+      addMessageHandler((message) => {
+        if (message.type !== 'INSERT_TABLE') return;
+        const parsed = parseDelimited(message.text, message.delimiter);
+        if (parsed) {
+          insertRows(editor, parsed.rows);
+        } else {
+          showError(
+            `Could not insert the file as a table: it is empty, has an unclosed quote, or has more than ${MAX_CELLS.toLocaleString()} cells`
+          );
+        }
+      })
+    );
+  }, [editor, pasteDelimited]);
+
+  const handleClose = useCallback(() => {
+    setPending(null);
+  }, []);
+
+  if (!pending) return null;
+
+  return (
+    <TablePastePrompt
+      pending={pending}
+      onTable={() => insertRows(editor, pending.rows)}
+      onText={() =>
+        editor.update(() => {
+          const selection = $getSelection();
+          if ($isRangeSelection(selection)) {
+            selection.insertRawText(pending.text);
+          }
+        })
+      }
+      onClose={handleClose}
+    />
+  );
+}
+
+interface TablePastePromptProps {
+  pending: PendingPaste;
+  onTable: () => void;
+  onText: () => void;
+  onClose: () => void;
+}
+
+function TablePastePrompt({ pending, onTable, onText, onClose }: TablePastePromptProps) {
+  const promptRef = useRef<HTMLDivElement>(null);
+
+  // Close on click outside or escape; the paste is dropped
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (promptRef.current && !promptRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const columns = pending.rows[0]?.length ?? 0;
+
+  return (
+    <div
+      ref={promptRef}
+      className="table-paste-prompt"
+      style={{ position: 'fixed', top: pending.position.top, left: pending.position.left }}
+      // Keep the editor's selection while a button is clicked
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <span className="table-paste-label">
+        Paste {pending.rows.length} × {columns} as
+      </span>
+      <button
+        className="table-paste-button"
+        onClick={() => {
+          onTable();
+          onClose();
+        }}
+      >
+        Table
+      </button>
+      <button
+        className="table-paste-button"
+        onClick={() => {
+          onText();
+          onClose();
+        }}
+      >
+        Text
+      </button>
+    </div>
+  );
+}
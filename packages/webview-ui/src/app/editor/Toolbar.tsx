@@ -10,16 +10,28 @@ import {
   TextFormatType,
 } from 'lexical';
 import { $isLinkNode, TOGGLE_LINK_COMMAND } from '@lexical/link';
-import { getSelectedNode } from './utils';
+import { $getTextBlockType, $setTextBlockType, getSelectedNode, HEADING_TAGS, TextBlockType } from './utils';
+import { $createInlineHtmlNode, $isLinkReferenceNode, $setLinkDefinitionUrl } from './nodes';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
 
 // Consolidated toolbar state to batch updates
 interface ToolbarState {
   isVisible: boolean;
+  // Paragraph or heading under the selection; other blocks can't be turned into these
+  blockType: TextBlockType | null;
   isBold: boolean;
   isItalic: boolean;
   isStrikethrough: boolean;
   isCode: boolean;
+  isHighlight: boolean;
+  isSuperscript: boolean;
+  isSubscript: boolean;
   isLink: boolean;
+  // Reference-style link under the selection; its URL lives in the definition
+  linkReference: { identifier: string; label: string; url: string } | null;
   position: { top: number; left: number };
   showLinkInput: boolean;
   linkUrl: string;
@@ -27,11 +39,16 @@ interface ToolbarState {
 
 const initialToolbarState: ToolbarState = {
   isVisible: false,
+  blockType: null,
   isBold: false,
   isItalic: false,
   isStrikethrough: false,
   isCode: false,
+  isHighlight: false,
+  isSuperscript: false,
+  isSubscript: false,
   isLink: false,
+  linkReference: null,
   position: { top: 0, left: 0 },
   showLinkInput: false,
   linkUrl: '',
@@ -76,17 +93,26 @@ export function Toolbar() {
     // Check for link
     const node = getSelectedNode(selection);
     const parent = node.getParent();
-    const isLink = $isLinkNode(parent) || $isLinkNode(node);
+    const linkNode = $isLinkNode(parent) ? parent : $isLinkNode(node) ? node : null;
+    const isLink = linkNode !== null;
+    const linkReference = $isLinkReferenceNode(linkNode)
+      ? { ...linkNode.getReference(), url: linkNode.getURL() }
+      : null;
 
     // Batch all state updates into a single setState call
     setState(prev => ({
       ...prev,
       isVisible: true,
+      blockType: $getTextBlockType(selection),
       isBold: selection.hasFormat('bold'),
       isItalic: selection.hasFormat('italic'),
       isStrikethrough: selection.hasFormat('strikethrough'),
       isCode: selection.hasFormat('code'),
+      isHighlight: selection.hasFormat('highlight'),
+      isSuperscript: selection.hasFormat('superscript'),
+      isSubscript: selection.hasFormat('subscript'),
       isLink,
+      linkReference,
       position: {
         top: rect.top - 45,
         left: rect.left + rect.width / 2,
@@ -161,8 +187,37 @@ export function Toolbar() {
     [editor]
   );
 
+  const turnInto = useCallback(
+    (type: TextBlockType) => {
+      editor.update(() => {
+        const selection = $getSelection();
+        if ($isRangeSelection(selection)) {
+          $setTextBlockType(selection, type);
+        }
+      });
+      setState(prev => ({ ...prev, blockType: type }));
+      editor.focus();
+    },
+    [editor]
+  );
+
+  // Keys have no text format, so the selection becomes a `<kbd>` HTML node
+  const insertKbd = useCallback(() => {
+    editor.update(() => {
+      const selection = $getSelection();
+      if (!$isRangeSelection(selection)) return;
+      const text = selection.getTextContent();
+      if (text === '') return;
+      selection.insertNodes([$createInlineHtmlNode(`<kbd>${escapeHtml(text)}</kbd>`)]);
+    });
+  }, [editor]);
+
   const openLinkInput = useCallback(() => {
-    if (state.isLink) {
+    if (state.linkReference) {
+      // Edit the URL in the definition, shared by every link to it
+      setState(prev => ({ ...prev, showLinkInput: true, linkUrl: prev.linkReference?.url ?? '' }));
+      setTimeout(() => linkInputRef.current?.select(), 0);
+    } else if (state.isLink) {
       // Remove link
       editor.dispatchCommand(TOGGLE_LINK_COMMAND, null);
     } else {
@@ -171,14 +226,22 @@ export function Toolbar() {
       // Focus the input after it renders
       setTimeout(() => linkInputRef.current?.focus(), 0);
     }
-  }, [editor, state.isLink]);
+  }, [editor, state.isLink, state.linkReference]);
 
   const submitLink = useCallback(() => {
-    if (state.linkUrl) {
-      editor.dispatchCommand(TOGGLE_LINK_COMMAND, state.linkUrl);
+    const { linkReference, linkUrl } = state;
+    if (linkReference && linkUrl) {
+      editor.update(() => {
+        $setLinkDefinitionUrl(linkReference.identifier, linkUrl);
+      });
+    } else if (linkReference) {
+      // An empty URL removes the link, as the button does for inline links
+      editor.dispatchCommand(TOGGLE_LINK_COMMAND, null);
+    } else if (linkUrl) {
+      editor.dispatchCommand(TOGGLE_LINK_COMMAND, linkUrl);
     }
     setState(prev => ({ ...prev, showLinkInput: false, linkUrl: '' }));
-  }, [editor, state.linkUrl]);
+  }, [editor, state]);
 
   const cancelLink = useCallback(() => {
     setState(prev => ({ ...prev, showLinkInput: false, linkUrl: '' }));
@@ -197,6 +260,25 @@ export function Toolbar() {
         transform: 'translateX(-50%)',
       }}
     >
+      {state.blockType && (
+        <>
+          <select
+            className="toolbar-block-select"
+            value={state.blockType}
+            onChange={(e) => turnInto(e.target.value as TextBlockType)}
+            aria-label="Turn into"
+            title="Turn into"
+          >
+            <option value="paragraph">Text</option>
+            {HEADING_TAGS.map((tag, index) => (
+              <option key={tag} value={tag}>
+                Heading {index + 1}
+              </option>
+            ))}
+          </select>
+          <div className="toolbar-divider" />
+        </>
+      )}
       <button
         type="button"
         onMouseDown={(e) => {
@@ -245,6 +327,54 @@ export function Toolbar() {
       >
         {'</>'}
       </button>
+      <button
+        type="button"
+        onMouseDown={(e) => {
+          e.preventDefault();
+          insertKbd();
+        }}
+        className="toolbar-button"
+        aria-label="Keyboard key"
+        title="Keyboard Key"
+      >
+        <kbd>K</kbd>
+      </button>
+      <button
+        type="button"
+        onMouseDown={(e) => {
+          e.preventDefault();
+          formatText('highlight');
+        }}
+        className={`toolbar-button ${state.isHighlight ? 'active' : ''}`}
+        aria-label="Highlight"
+        title="Highlight"
+      >
+        <mark>H</mark>
+      </button>
+      <button
+        type="button"
+        onMouseDown={(e) => {
+          e.preventDefault();
+          formatText('superscript');
+        }}
+        className={`toolbar-button ${state.isSuperscript ? 'active' : ''}`}
+        aria-label="Superscript"
+        title="Superscript"
+      >
+        x<sup>2</sup>
+      </button>
+      <button
+        type="button"
+        onMouseDown={(e) => {
+          e.preventDefault();
+          formatText('subscript');
+        }}
+        className={`toolbar-button ${state.isSubscript ? 'active' : ''}`}
+        aria-label="Subscript"
+        title="Subscript"
+      >
+        x<sub>2</sub>
+      </button>
       <div className="toolbar-divider" />
       <button
         type="button"
@@ -254,7 +384,7 @@ export function Toolbar() {
         }}
         className={`toolbar-button ${state.isLink ? 'active' : ''}`}
         aria-label="Link"
-        title="Link (Cmd+K)"
+        title={state.linkReference ? `Edit link definition [${state.linkReference.label}]` : 'Link (Cmd+K)'}
       >
         🔗
       </button>
@@ -263,7 +393,7 @@ export function Toolbar() {
           <input
             ref={linkInputRef}
             type="text"
-            placeholder="Enter URL..."
+            placeholder={state.linkReference ? `URL for [${state.linkReference.label}]...` : 'Enter URL...'}
             value={state.linkUrl}
             onChange={(e) => setState(prev => ({ ...prev, linkUrl: e.target.value }))}
             onKeyDown={(e) => {
@@ -0,0 +1,90 @@
+import { Klass, LexicalNode, LexicalNodeReplacement } from 'lexical';
+import { HeadingNode, QuoteNode } from '@lexical/rich-text';
+import { ListNode, ListItemNode } from '@lexical/list';
+import { CodeNode, CodeHighlightNode } from '@lexical/code';
+import { LinkNode, AutoLinkNode } from '@lexical/link';
+import { TableNode, TableRowNode, TableCellNode } from '@lexical/table';
+import {
+  CalloutNode,
+  ToggleContainerNode,
+  ToggleTitleNode,
+  ToggleContentNode,
+  ImageNode,
+  HorizontalRuleNode,
+  RawMarkdownNode,
+  FrontmatterNode,
+  InlineMathNode,
+  BlockMathNode,
+  MermaidNode,
+  FootnoteRefNode,
+  FootnoteDefinitionNode,
+  InlineImageNode,
+  InlineHtmlNode,
+  HtmlBlockNode,
+  CommentNode,
+  LinkReferenceNode,
+  LinkDefinitionNode,
+  MarkdownListNode,
+  MarkdownListItemNode,
+  MarkdownCodeNode,
+  MarkdownTableNode,
+} from './nodes';
+
+// Every node the editor registers, shared by the editor and the mapper tests
+export const editorNodes: Array<Klass<LexicalNode> | LexicalNodeReplacement> = [
+  HeadingNode,
+  QuoteNode,
+  ListNode,
+  ListItemNode,
+  CodeNode,
+  CodeHighlightNode,
+  LinkNode,
+  AutoLinkNode,
+  TableNode,
+  TableRowNode,
+  TableCellNode,
+  CalloutNode,
+  ToggleContainerNode,
+  ToggleTitleNode,
+  ToggleContentNode,
+  ImageNode,
+  HorizontalRuleNode,
+  RawMarkdownNode,
+  FrontmatterNode,
+  InlineMathNode,
+  BlockMathNode,
+  MermaidNode,
+  FootnoteRefNode,
+  FootnoteDefinitionNode,
+  InlineImageNode,
+  InlineHtmlNode,
+  HtmlBlockNode,
+  CommentNode,
+  LinkReferenceNode,
+  LinkDefinitionNode,
+  MarkdownListNode,
+  // Lists, code blocks and tables created by Lexical commands keep markdown details too
+  {
+    replace: ListNode,
+    with: (node: ListNode) => new MarkdownListNode(node.getListType(), node.getStart()),
+    withKlass: MarkdownListNode,
+  },
+  MarkdownListItemNode,
+  {
+    replace: ListItemNode,
+    with: (node: ListItemNode) => new MarkdownListItemNode(node.getValue(), node.getChecked()),
+    withKlass: MarkdownListItemNode,
+  },
+  MarkdownCodeNode,
+  {
+    replace: CodeNode,
+    with: (node: CodeNode) => new MarkdownCodeNode(node.getLanguage()),
+    withKlass: MarkdownCodeNode,
+  },
+  MarkdownTableNode,
+  {
+    replace: TableNode,
+    with: () => new MarkdownTableNode(),
+    withKlass: MarkdownTableNode,
+  },
+];
@@ -12,51 +12,135 @@ import {
   Spread,
 } from 'lexical';
 
-export type CalloutType = 'note' | 'tip' | 'warning' | 'important' | 'caution';
+// Lowercase `[!type]` identifier: the GitHub alert types, Obsidian's built-in
+// types, or one defined in `slashmd.callouts.customTypes`
+export type CalloutType = string;
+
+// `-` starts folded, `+` starts open, null can't be folded
+export type CalloutFold = '+' | '-';
+
+// Leading emoji for each callout type when `slashmd.callouts.style` is `emoji`
+export const CALLOUT_EMOJI: Record<CalloutType, string> = {
+  note: 'ℹ️',
+  tip: '💡',
+  warning: '⚠️',
+  important: '❗',
+  caution: '🔥',
+};
+
+// Obsidian's aliases share the look of the type they stand for
+const CALLOUT_ALIASES: Record<CalloutType, CalloutType> = {
+  summary: 'abstract',
+  tldr: 'abstract',
+  hint: 'tip',
+  check: 'success',
+  done: 'success',
+  help: 'question',
+  faq: 'question',
+  attention: 'warning',
+  fail: 'failure',
+  missing: 'failure',
+  error: 'danger',
+  cite: 'quote',
+};
 
 export type SerializedCalloutNode = Spread<
   {
     calloutType: CalloutType;
+    title: string | null;
+    fold: CalloutFold | null;
+    marker: string | null;
   },
   SerializedElementNode
 >;
 
+/**
+ * CalloutNode - a `> [!type]` block. The title is the raw markdown after the
+ * marker, written back as is; without one the type name is shown. The marker
+ * keeps the case it was written in.
+ */
 export class CalloutNode extends ElementNode {
   __calloutType: CalloutType;
+  __title: string | null;
+  __fold: CalloutFold | null;
+  // Type as written in the marker (`[!Note]`); null writes it in uppercase
+  __marker: string | null;
 
   static getType(): string {
     return 'callout';
   }
 
   static clone(node: CalloutNode): CalloutNode {
-    return new CalloutNode(node.__calloutType, node.__key);
+    return new CalloutNode(node.__calloutType, node.__title, node.__fold, node.__marker, node.__key);
   }
 
-  constructor(calloutType: CalloutType, key?: NodeKey) {
+  constructor(
+    calloutType: CalloutType,
+    title: string | null = null,
+    fold: CalloutFold | null = null,
+    marker: string | null = null,
+    key?: NodeKey
+  ) {
     super(key);
-    this.__calloutType = calloutType;
+    this.__calloutType = calloutType.toLowerCase();
+    this.__title = title;
+    this.__fold = fold;
+    this.__marker = marker;
   }
 
   getCalloutType(): CalloutType {
-    return this.__calloutType;
+    return this.getLatest().__calloutType;
   }
 
   setCalloutType(calloutType: CalloutType): void {
     const writable = this.getWritable();
-    writable.__calloutType = calloutType;
+    writable.__calloutType = calloutType.toLowerCase();
+    writable.__marker = null;
+  }
+
+  // Type as it goes in the `[!type]` marker
+  getMarker(): string {
+    const self = this.getLatest();
+    return self.__marker ?? self.__calloutType.toUpperCase();
+  }
+
+  getTitle(): string | null {
+    return this.getLatest().__title;
+  }
+
+  setTitle(title: string | null): void {
+    const writable = this.getWritable();
+    writable.__title = title;
+  }
+
+  getFold(): CalloutFold | null {
+    return this.getLatest().__fold;
+  }
+
+  isFolded(): boolean {
+    return this.getLatest().__fold === '-';
+  }
+
+  // Fold or unfold a foldable callout; the marker follows (`[!note]-`/`[!note]+`)
+  toggleFolded(): void {
+    if (this.__fold === null) return;
+    const writable = this.getWritable();
+    writable.__fold = this.__fold === '-' ? '+' : '-';
   }
 
   createDOM(config: EditorConfig): HTMLElement {
     const element = document.createElement('div');
-    element.className = `callout callout-${this.__calloutType}`;
-    element.setAttribute('data-callout-type', this.__calloutType);
+    applyCalloutAttributes(element, this);
     return element;
   }
 
   updateDOM(prevNode: CalloutNode, dom: HTMLElement): boolean {
-    if (prevNode.__calloutType !== this.__calloutType) {
-      dom.className = `callout callout-${this.__calloutType}`;
-      dom.setAttribute('data-callout-type', this.__calloutType);
+    if (
+      prevNode.__calloutType !== this.__calloutType ||
+      prevNode.__title !== this.__title ||
+      prevNode.__fold !== this.__fold
+    ) {
+      applyCalloutAttributes(dom, this);
     }
     return false;
   }
@@ -77,14 +161,17 @@ export class CalloutNode extends ElementNode {
 
   exportDOM(): DOMExportOutput {
     const element = document.createElement('div');
-    element.className = `callout callout-${this.__calloutType}`;
-    element.setAttribute('data-callout-type', this.__calloutType);
+    applyCalloutAttributes(element, this);
     return { element };
   }
 
   static importJSON(serializedNode: SerializedCalloutNode): CalloutNode {
-    const node = $createCalloutNode(serializedNode.calloutType);
-    return node;
+    return new CalloutNode(
+      serializedNode.calloutType,
+      serializedNode.title ?? null,
+      serializedNode.fold ?? null,
+      serializedNode.marker ?? null
+    );
   }
 
   exportJSON(): SerializedCalloutNode {
@@ -92,6 +179,9 @@ export class CalloutNode extends ElementNode {
       ...super.exportJSON(),
       type: 'callout',
       calloutType: this.__calloutType,
+      title: this.__title,
+      fold: this.__fold,
+      marker: this.__marker,
       version: 1,
     };
   }
@@ -106,14 +196,52 @@ export class CalloutNode extends ElementNode {
   }
 }
 
+/**
+ * Class, header text and colours. Colours and icon come from the
+ * `--slashmd-callout-<type>-*` variables (built in, or set for custom types
+ * through the theme overrides), falling back to the note look.
+ */
+function applyCalloutAttributes(element: HTMLElement, node: CalloutNode): void {
+  const calloutType = node.__calloutType;
+  const look = CALLOUT_ALIASES[calloutType] ?? calloutType;
+  const variable = (name: string) =>
+    `var(--slashmd-callout-${calloutType}-${name}, var(--slashmd-callout-${look}-${name}, var(--slashmd-callout-note-${name})))`;
+
+  element.className = `callout callout-${look}`;
+  element.setAttribute('data-callout-type', calloutType);
+  element.setAttribute('data-callout-title', node.__title ?? formatCalloutType(calloutType));
+  element.style.setProperty('--callout-bg', variable('bg'));
+  element.style.setProperty('--callout-border', variable('border'));
+  element.style.setProperty('--callout-icon', variable('icon'));
+
+  if (node.__fold) {
+    element.setAttribute('data-callout-fold', node.__fold);
+  } else {
+    element.removeAttribute('data-callout-fold');
+  }
+}
+
+// `faq` → `Faq`, `my-type` → `My type`, the header shown when there is no title
+function formatCalloutType(calloutType: CalloutType): string {
+  const words = calloutType.replace(/[-_]+/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
 function convertCalloutElement(domNode: HTMLElement): DOMConversionOutput | null {
-  const calloutType = (domNode.getAttribute('data-callout-type') || 'note') as CalloutType;
-  const node = $createCalloutNode(calloutType);
+  const calloutType = domNode.getAttribute('data-callout-type') || 'note';
+  const fold = domNode.getAttribute('data-callout-fold');
+  const node = new CalloutNode(calloutType, null, fold === '+' || fold === '-' ? fold : null);
   return { node };
 }
 
-export function $createCalloutNode(calloutType: CalloutType, content?: string): CalloutNode {
-  const node = new CalloutNode(calloutType);
+export function $createCalloutNode(
+  calloutType: CalloutType,
+  content?: string,
+  title: string | null = null,
+  fold: CalloutFold | null = null,
+  marker: string | null = null
+): CalloutNode {
+  const node = new CalloutNode(calloutType, title, fold, marker);
 
   // If content is provided, create a paragraph with text inside
   if (content !== undefined) {
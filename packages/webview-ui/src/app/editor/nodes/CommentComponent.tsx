@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, NodeKey } from 'lexical';
+import { $isCommentNode, escapeCommentText } from './CommentNode';
+
+interface CommentComponentProps {
+  text: string;
+  nodeKey: NodeKey;
+}
+
+export function CommentComponent({ text, nodeKey }: CommentComponentProps): JSX.Element {
+  const [editor] = useLexicalComposerContext();
+  const [isEditing, setIsEditing] = useState(text === '');
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState(text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const lines = text.split('\n');
+  const multiline = lines.length > 1;
+  const escaped = escapeCommentText(draft) !== draft;
+
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(text);
+    }
+  }, [text, isEditing]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (isEditing && textarea) {
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  }, [isEditing, draft]);
+
+  const commit = useCallback(() => {
+    setIsEditing(false);
+    if (draft === text) return;
+
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+      if (!$isCommentNode(node)) return;
+      if (draft.trim() === '') {
+        node.remove();
+      } else {
+        node.setText(draft);
+      }
+    });
+  }, [editor, nodeKey, draft, text]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      // Keep keystrokes away from Lexical's handlers
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDraft(text);
+        setIsEditing(false);
+      } else if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        commit();
+      }
+    },
+    [text, commit]
+  );
+
+  return (
+    <div className={`comment-annotation${isEditing ? ' editing' : ''}`} contentEditable={false}>
+      {multiline && !isEditing && (
+        <button
+          type="button"
+          className="comment-expand"
+          aria-label={isExpanded ? 'Collapse comment' : 'Expand comment'}
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setIsExpanded(!isExpanded);
+          }}
+        >
+          {isExpanded ? '▾' : '▸'}
+        </button>
+      )}
+      {isEditing ? (
+        <>
+          <textarea
+            ref={textareaRef}
+            className="comment-input"
+            value={draft}
+            rows={1}
+            spellCheck={false}
+            placeholder="Comment (Shift+Enter for a new line)"
+            autoFocus
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={commit}
+          />
+          {escaped && (
+            <span className="comment-notice">
+              <code>--&gt;</code> would end the comment, so it is saved as <code>-- &gt;</code>
+            </span>
+          )}
+        </>
+      ) : (
+        <span
+          className="comment-text"
+          title="Click to edit comment"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setIsEditing(true);
+          }}
+        >
+          {'<!-- '}
+          {multiline && !isExpanded ? `${lines[0]} …` : text}
+          {' -->'}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import {
+  DecoratorNode,
+  DOMExportOutput,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode,
+  Spread,
+} from 'lexical';
+import { createElement } from 'react';
+import { CommentComponent } from './CommentComponent';
+
+export type SerializedCommentNode = Spread<
+  {
+    comment: string;
+  },
+  SerializedLexicalNode
+>;
+
+// A single `<!-- … -->` and nothing else
+const COMMENT_PATTERN = /^<!--((?:(?!-->)[\s\S])*)-->$/;
+// `-->` (or `--!>`) would end the comment early
+const COMMENT_END = /--(!?>)/g;
+
+/**
+ * CommentNode - an HTML comment on a block of its own (`<!-- toc -->`,
+ * `<!-- prettier-ignore -->`, ...). Shown as a faint annotation and written
+ * back exactly as it was, so tools that look for it still find it.
+ */
+export class CommentNode extends DecoratorNode<JSX.Element> {
+  // The whole comment, `<!--` and `-->` included
+  __comment: string;
+
+  static getType(): string {
+    return 'comment';
+  }
+
+  static clone(node: CommentNode): CommentNode {
+    return new CommentNode(node.__comment, node.__key);
+  }
+
+  constructor(comment: string, key?: NodeKey) {
+    super(key);
+    this.__comment = comment;
+  }
+
+  getComment(): string {
+    return this.__comment;
+  }
+
+  // Text between `<!--` and `-->`
+  getText(): string {
+    return getCommentText(this.__comment);
+  }
+
+  // Replace the text, keeping the spacing or line breaks around it. There is
+  // always space inside `<!--` and `-->`, so text starting with `>` or ending
+  // with `<!-` can't break the comment; only a `-->` inside it is escaped.
+  setText(text: string): void {
+    const body = COMMENT_PATTERN.exec(this.__comment)?.[1] ?? '';
+    const before = /^\s*/.exec(body)?.[0] || ' ';
+    const after = /\s*$/.exec(body)?.[0] || ' ';
+    const writable = this.getWritable();
+    writable.__comment = `<!--${before}${escapeCommentText(text.trim())}${after}-->`;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'comment-block';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('span');
+    element.textContent = this.__comment;
+    return { element };
+  }
+
+  static importJSON(serializedNode: SerializedCommentNode): CommentNode {
+    return $createCommentNode(serializedNode.comment);
+  }
+
+  exportJSON(): SerializedCommentNode {
+    return {
+      type: 'comment',
+      comment: this.__comment,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return this.__comment;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(CommentComponent, {
+      text: this.getText(),
+      nodeKey: this.__key,
+    });
+  }
+
+  isInline(): boolean {
+    return false;
+  }
+}
+
+// Break up `-->` as `-- >` so the text stays inside the comment
+export function escapeCommentText(text: string): string {
+  return text.replace(COMMENT_END, '-- $1');
+}
+
+export function isComment(html: string): boolean {
+  return COMMENT_PATTERN.test(html);
+}
+
+function getCommentText(comment: string): string {
+  return (COMMENT_PATTERN.exec(comment)?.[1] ?? comment).trim();
+}
+
+export function $createCommentNode(comment: string = '<!-- -->'): CommentNode {
+  return new CommentNode(comment);
+}
+
+export function $isCommentNode(node: LexicalNode | null | undefined): node is CommentNode {
+  return node instanceof CommentNode;
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { EditorState, NodeKey } from 'lexical';
+import { $findFootnoteDefinition, $getFootnoteNumbers } from './FootnoteNode';
+
+interface FootnoteRefComponentProps {
+  identifier: string;
+}
+
+interface FootnoteState {
+  number: number | null;
+  // Text of the definition, or null when there is none
+  preview: string | null;
+  definitionKey: NodeKey | null;
+}
+
+function readFootnote(editorState: EditorState, identifier: string): FootnoteState {
+  return editorState.read(() => {
+    const definition = $findFootnoteDefinition(identifier);
+    return {
+      number: $getFootnoteNumbers().get(identifier) ?? null,
+      preview: definition ? definition.getTextContent().trim() : null,
+      definitionKey: definition ? definition.getKey() : null,
+    };
+  });
+}
+
+export function FootnoteRefComponent({ identifier }: FootnoteRefComponentProps): JSX.Element {
+  const [editor] = useLexicalComposerContext();
+  const [footnote, setFootnote] = useState(() => readFootnote(editor.getEditorState(), identifier));
+  const [isHovered, setIsHovered] = useState(false);
+
+  // Numbers shift as references are added, removed or moved
+  useEffect(() => {
+    setFootnote(readFootnote(editor.getEditorState(), identifier));
+    return editor.registerUpdateListener(({ editorState }) => {
+      setFootnote(readFootnote(editorState, identifier));
+    });
+  }, [editor, identifier]);
+
+  const scrollToDefinition = useCallback(
+    (e: React.MouseEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (!footnote.definitionKey) return;
+      editor.getElementByKey(footnote.definitionKey)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    },
+    [editor, footnote.definitionKey]
+  );
+
+  return (
+    <span
+      className="footnote-ref-wrapper"
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <sup
+        className={`footnote-ref-number${footnote.preview === null ? ' missing' : ''}`}
+        onClick={scrollToDefinition}
+      >
+        {footnote.number ?? identifier}
+      </sup>
+      {isHovered && (
+        <span className="footnote-preview" contentEditable={false}>
+          {footnote.preview === null ? 'No definition for this footnote' : footnote.preview || 'Empty footnote'}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,232 @@
+import {
+  $getRoot,
+  $nodesOfType,
+  DecoratorNode,
+  DOMExportOutput,
+  ElementNode,
+  LexicalNode,
+  NodeKey,
+  SerializedElementNode,
+  SerializedLexicalNode,
+  Spread,
+} from 'lexical';
+import { $dfs } from '@lexical/utils';
+import { createElement } from 'react';
+import { FootnoteRefComponent } from './FootnoteComponent';
+
+export type SerializedFootnoteRefNode = Spread<
+  {
+    identifier: string;
+    label: string;
+  },
+  SerializedLexicalNode
+>;
+
+export type SerializedFootnoteDefinitionNode = Spread<
+  {
+    identifier: string;
+    label: string;
+  },
+  SerializedElementNode
+>;
+
+/**
+ * FootnoteRefNode - a `[^label]` reference inside text, shown as its number
+ */
+export class FootnoteRefNode extends DecoratorNode<JSX.Element> {
+  // Normalized form used to match references to definitions
+  __identifier: string;
+  // Label as written in the source
+  __label: string;
+
+  static getType(): string {
+    return 'footnote-ref';
+  }
+
+  static clone(node: FootnoteRefNode): FootnoteRefNode {
+    return new FootnoteRefNode(node.__identifier, node.__label, node.__key);
+  }
+
+  constructor(identifier: string, label: string = identifier, key?: NodeKey) {
+    super(key);
+    this.__identifier = identifier;
+    this.__label = label;
+  }
+
+  getIdentifier(): string {
+    return this.__identifier;
+  }
+
+  getLabel(): string {
+    return this.__label;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('span');
+    element.className = 'footnote-ref';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('sup');
+    element.textContent = `[^${this.__label}]`;
+    return { element };
+  }
+
+  static importJSON(serializedNode: SerializedFootnoteRefNode): FootnoteRefNode {
+    return $createFootnoteRefNode(serializedNode.identifier, serializedNode.label);
+  }
+
+  exportJSON(): SerializedFootnoteRefNode {
+    return {
+      type: 'footnote-ref',
+      identifier: this.__identifier,
+      label: this.__label,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return `[^${this.__label}]`;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(FootnoteRefComponent, {
+      identifier: this.__identifier,
+    });
+  }
+
+  isInline(): boolean {
+    return true;
+  }
+}
+
+/**
+ * FootnoteDefinitionNode - the body of a footnote (`[^label]: ...`).
+ * Definitions stay where they are written, so saving never moves them;
+ * FootnotePlugin lists them in number order below the document.
+ */
+export class FootnoteDefinitionNode extends ElementNode {
+  __identifier: string;
+  __label: string;
+
+  static getType(): string {
+    return 'footnote-definition';
+  }
+
+  static clone(node: FootnoteDefinitionNode): FootnoteDefinitionNode {
+    return new FootnoteDefinitionNode(node.__identifier, node.__label, node.__key);
+  }
+
+  constructor(identifier: string, label: string = identifier, key?: NodeKey) {
+    super(key);
+    this.__identifier = identifier;
+    this.__label = label;
+  }
+
+  getIdentifier(): string {
+    return this.__identifier;
+  }
+
+  getLabel(): string {
+    return this.__label;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'footnote-definition';
+    // The displayed number is filled in by FootnotePlugin
+    element.setAttribute('data-footnote', this.__identifier);
+    return element;
+  }
+
+  updateDOM(prevNode: FootnoteDefinitionNode, dom: HTMLElement): boolean {
+    if (prevNode.__identifier !== this.__identifier) {
+      dom.setAttribute('data-footnote', this.__identifier);
+    }
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('div');
+    element.className = 'footnote-definition';
+    element.setAttribute('data-footnote', this.__identifier);
+    return { element };
+  }
+
+  static importJSON(serializedNode: SerializedFootnoteDefinitionNode): FootnoteDefinitionNode {
+    return $createFootnoteDefinitionNode(serializedNode.identifier, serializedNode.label);
+  }
+
+  exportJSON(): SerializedFootnoteDefinitionNode {
+    return {
+      ...super.exportJSON(),
+      type: 'footnote-definition',
+      identifier: this.__identifier,
+      label: this.__label,
+      version: 1,
+    };
+  }
+
+  canBeEmpty(): boolean {
+    return false;
+  }
+
+  isShadowRoot(): boolean {
+    return true;
+  }
+}
+
+export function $createFootnoteRefNode(identifier: string, label?: string): FootnoteRefNode {
+  return new FootnoteRefNode(identifier, label);
+}
+
+export function $isFootnoteRefNode(node: LexicalNode | null | undefined): node is FootnoteRefNode {
+  return node instanceof FootnoteRefNode;
+}
+
+export function $createFootnoteDefinitionNode(identifier: string, label?: string): FootnoteDefinitionNode {
+  return new FootnoteDefinitionNode(identifier, label);
+}
+
+export function $isFootnoteDefinitionNode(
+  node: LexicalNode | null | undefined
+): node is FootnoteDefinitionNode {
+  return node instanceof FootnoteDefinitionNode;
+}
+
+/**
+ * Number footnotes the way GitHub renders them: 1, 2, 3, ... in order of
+ * first reference. Definitions without a reference get no number.
+ */
+export function $getFootnoteNumbers(): Map<string, number> {
+  const numbers = new Map<string, number>();
+
+  for (const { node } of $dfs($getRoot())) {
+    if ($isFootnoteRefNode(node) && !numbers.has(node.getIdentifier())) {
+      numbers.set(node.getIdentifier(), numbers.size + 1);
+    }
+  }
+
+  return numbers;
+}
+
+export function $findFootnoteDefinition(identifier: string): FootnoteDefinitionNode | null {
+  const definitions = $nodesOfType(FootnoteDefinitionNode);
+  return definitions.find((definition) => definition.getIdentifier() === identifier) ?? null;
+}
+
+// Next free number for a new footnote, after every numeric label in use
+export function $getNextFootnoteIdentifier(): string {
+  let highest = 0;
+  for (const { node } of $dfs($getRoot())) {
+    if (($isFootnoteRefNode(node) || $isFootnoteDefinitionNode(node)) && /^\d+$/.test(node.getIdentifier())) {
+      highest = Math.max(highest, parseInt(node.getIdentifier(), 10));
+    }
+  }
+  return String(highest + 1);
+}
@@ -0,0 +1,340 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, NodeKey } from 'lexical';
+import { Document, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import { $isFrontmatterNode, FrontmatterFormat } from './FrontmatterNode';
+
+type PropertyKind = 'text' | 'number' | 'boolean' | 'date' | 'list' | 'complex';
+
+interface Property {
+  key: string;
+  kind: PropertyKind;
+  value: string | number | boolean | string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Parse YAML front matter into a flat list of properties, or null if it
+// can't be shown as a properties table (invalid YAML, not a mapping)
+function readProperties(doc: Document): Property[] | null {
+  if (doc.errors.length > 0) return null;
+  if (doc.contents === null) return [];
+  if (!isMap(doc.contents)) return null;
+
+  const properties: Property[] = [];
+  for (const pair of doc.contents.items) {
+    const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+    const node = pair.value;
+
+    if (node === null || (isScalar(node) && node.value === null)) {
+      properties.push({ key, kind: 'text', value: '' });
+    } else if (isScalar(node) && typeof node.value === 'boolean') {
+      properties.push({ key, kind: 'boolean', value: node.value });
+    } else if (isScalar(node) && typeof node.value === 'number') {
+      properties.push({ key, kind: 'number', value: node.value });
+    } else if (isScalar(node) && typeof node.value === 'string') {
+      properties.push({ key, kind: DATE_PATTERN.test(node.value) ? 'date' : 'text', value: node.value });
+    } else if (isSeq(node) && node.items.every((item) => isScalar(item))) {
+      properties.push({
+        key,
+        kind: 'list',
+        value: node.items.map((item) => String(isScalar(item) ? item.value : item)),
+      });
+    } else {
+      properties.push({ key, kind: 'complex', value: String(node).trim() });
+    }
+  }
+  return properties;
+}
+
+// Write a property back, keeping the original scalar quoting and sequence style
+function writeProperty(doc: Document, key: string, value: string | number | boolean | string[]): void {
+  const node = doc.get(key, true);
+
+  if (Array.isArray(value)) {
+    if (isSeq(node)) {
+      node.items = value.map((item) => doc.createNode(item));
+    } else {
+      doc.set(key, value);
+    }
+  } else if (isScalar(node)) {
+    node.value = value;
+  } else {
+    doc.set(key, value);
+  }
+}
+
+function stringifyDocument(doc: Document): string {
+  // Match the common `[a, b]` style rather than yaml's padded `[ a, b ]`
+  return doc.toString({ flowCollectionPadding: false }).replace(/\n$/, '');
+}
+
+interface PropertyValueProps {
+  property: Property;
+  onChange: (value: string | number | boolean | string[]) => void;
+}
+
+function PropertyValue({ property, onChange }: PropertyValueProps) {
+  const [draft, setDraft] = useState(String(property.value));
+  const [listDraft, setListDraft] = useState('');
+
+  useEffect(() => {
+    setDraft(String(property.value));
+  }, [property.value]);
+
+  const commitDraft = () => {
+    if (draft === String(property.value)) return;
+    if (property.kind === 'number') {
+      const num = Number(draft);
+      onChange(draft.trim() !== '' && !isNaN(num) ? num : draft);
+    } else {
+      onChange(draft);
+    }
+  };
+
+  const stopPropagation = (e: React.KeyboardEvent) => {
+    // Keep keystrokes away from Lexical's handlers
+    e.stopPropagation();
+  };
+
+  switch (property.kind) {
+    case 'boolean':
+      return (
+        <input
+          type="checkbox"
+          className="frontmatter-checkbox"
+          checked={property.value as boolean}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+      );
+
+    case 'list': {
+      const items = property.value as string[];
+      return (
+        <div className="frontmatter-list">
+          {items.map((item, index) => (
+            <span key={`${item}-${index}`} className="frontmatter-chip">
+              {item}
+              <button
+                type="button"
+                className="frontmatter-chip-remove"
+                aria-label={`Remove ${item}`}
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            className="frontmatter-input frontmatter-list-input"
+            placeholder="Add…"
+            value={listDraft}
+            onChange={(e) => setListDraft(e.target.value)}
+            onKeyDown={(e) => {
+              stopPropagation(e);
+              if (e.key === 'Enter' && listDraft.trim()) {
+                e.preventDefault();
+                onChange([...items, listDraft.trim()]);
+                setListDraft('');
+              }
+            }}
+          />
+        </div>
+      );
+    }
+
+    case 'complex':
+      return (
+        <pre className="frontmatter-complex" title="Edit as text to change nested values">
+          {property.value as string}
+        </pre>
+      );
+
+    default:
+      return (
+        <input
+          type={property.kind === 'date' ? 'date' : property.kind === 'number' ? 'number' : 'text'}
+          className="frontmatter-input"
+          value={draft}
+          placeholder="Empty"
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(e) => {
+            stopPropagation(e);
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              commitDraft();
+            } else if (e.key === 'Escape') {
+              setDraft(String(property.value));
+            }
+          }}
+        />
+      );
+  }
+}
+
+interface FrontmatterComponentProps {
+  format: FrontmatterFormat;
+  value: string;
+  nodeKey: NodeKey;
+}
+
+export function FrontmatterComponent({ format, value, nodeKey }: FrontmatterComponentProps): JSX.Element {
+  const [editor] = useLexicalComposerContext();
+  const [showSource, setShowSource] = useState(false);
+  const [sourceDraft, setSourceDraft] = useState(value);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const doc = useMemo(() => (format === 'yaml' ? parseDocument(value) : null), [format, value]);
+  const properties = useMemo(() => (doc ? readProperties(doc) : null), [doc]);
+
+  // TOML and YAML that isn't a plain mapping can only be edited as text
+  const isRaw = showSource || properties === null;
+
+  useEffect(() => {
+    setSourceDraft(value);
+  }, [value]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (isRaw && textarea) {
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  }, [isRaw, sourceDraft]);
+
+  const setValue = useCallback(
+    (newValue: string) => {
+      editor.update(() => {
+        const node = $getNodeByKey(nodeKey);
+        if ($isFrontmatterNode(node)) {
+          node.setValue(newValue);
+        }
+      });
+    },
+    [editor, nodeKey]
+  );
+
+  const updateProperty = useCallback(
+    (key: string, propertyValue: string | number | boolean | string[]) => {
+      const updated = parseDocument(value);
+      writeProperty(updated, key, propertyValue);
+      setValue(stringifyDocument(updated));
+    },
+    [value, setValue]
+  );
+
+  const deleteProperty = useCallback(
+    (key: string) => {
+      const updated = parseDocument(value);
+      updated.delete(key);
+      setValue(stringifyDocument(updated));
+    },
+    [value, setValue]
+  );
+
+  const addProperty = useCallback(
+    (key: string) => {
+      const updated = parseDocument(value);
+      if (!updated.has(key)) {
+        updated.set(key, '');
+        setValue(stringifyDocument(updated));
+      }
+      setNewKey(null);
+    },
+    [value, setValue]
+  );
+
+  const commitSource = useCallback(() => {
+    if (sourceDraft !== value) {
+      setValue(sourceDraft);
+    }
+  }, [sourceDraft, value, setValue]);
+
+  return (
+    <div className="frontmatter" contentEditable={false}>
+      <div className="frontmatter-header">
+        <span className="frontmatter-label">Properties</span>
+        {properties !== null && (
+          <button
+            type="button"
+            className="frontmatter-toggle"
+            onClick={() => {
+              commitSource();
+              setShowSource((prev) => !prev);
+            }}
+          >
+            {showSource ? 'Show properties' : 'Edit as text'}
+          </button>
+        )}
+      </div>
+
+      {isRaw ? (
+        <>
+          {format === 'yaml' && properties === null && (
+            <div className="frontmatter-error">Invalid YAML - edit the source below</div>
+          )}
+          <textarea
+            ref={textareaRef}
+            className="frontmatter-source"
+            value={sourceDraft}
+            spellCheck={false}
+            onChange={(e) => setSourceDraft(e.target.value)}
+            onBlur={commitSource}
+            onKeyDown={(e) => e.stopPropagation()}
+          />
+        </>
+      ) : (
+        <div className="frontmatter-table">
+          {properties!.map((property) => (
+            <div key={property.key} className="frontmatter-row">
+              <span className="frontmatter-key" title={property.key}>
+                {property.key}
+              </span>
+              <div className="frontmatter-value">
+                <PropertyValue
+                  property={property}
+                  onChange={(newValue) => updateProperty(property.key, newValue)}
+                />
+              </div>
+              <button
+                type="button"
+                className="frontmatter-delete"
+                aria-label={`Delete ${property.key}`}
+                title="Delete property"
+                onClick={() => deleteProperty(property.key)}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {newKey !== null ? (
+            <input
+              type="text"
+              className="frontmatter-input frontmatter-new-key"
+              placeholder="Property name"
+              autoFocus
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              onBlur={() => setNewKey(null)}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === 'Enter' && newKey.trim()) {
+                  e.preventDefault();
+                  addProperty(newKey.trim());
+                } else if (e.key === 'Escape') {
+                  setNewKey(null);
+                }
+              }}
+            />
+          ) : (
+            <button type="button" className="frontmatter-add" onClick={() => setNewKey('')}>
+              + Add property
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
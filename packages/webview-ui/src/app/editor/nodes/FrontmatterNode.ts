@@ -0,0 +1,105 @@
+import {
+  DecoratorNode,
+  DOMExportOutput,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode,
+  Spread,
+} from 'lexical';
+import { createElement } from 'react';
+import { FrontmatterComponent } from './FrontmatterComponent';
+
+export type FrontmatterFormat = 'yaml' | 'toml';
+
+export type SerializedFrontmatterNode = Spread<
+  {
+    format: FrontmatterFormat;
+    value: string;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * Front matter at the top of a document (`---` YAML or `+++` TOML).
+ * The value is the text between the fences, without the fences themselves.
+ */
+export class FrontmatterNode extends DecoratorNode<JSX.Element> {
+  __format: FrontmatterFormat;
+  __value: string;
+
+  static getType(): string {
+    return 'frontmatter';
+  }
+
+  static clone(node: FrontmatterNode): FrontmatterNode {
+    return new FrontmatterNode(node.__format, node.__value, node.__key);
+  }
+
+  constructor(format: FrontmatterFormat, value: string, key?: NodeKey) {
+    super(key);
+    this.__format = format;
+    this.__value = value;
+  }
+
+  getFormat(): FrontmatterFormat {
+    return this.__format;
+  }
+
+  getValue(): string {
+    return this.__value;
+  }
+
+  setValue(value: string): void {
+    const writable = this.getWritable();
+    writable.__value = value;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'frontmatter-block';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('pre');
+    element.textContent = this.__value;
+    return { element };
+  }
+
+  static importJSON(serializedNode: SerializedFrontmatterNode): FrontmatterNode {
+    return $createFrontmatterNode(serializedNode.format, serializedNode.value);
+  }
+
+  exportJSON(): SerializedFrontmatterNode {
+    return {
+      type: 'frontmatter',
+      format: this.__format,
+      value: this.__value,
+      version: 1,
+    };
+  }
+
+  decorate(): JSX.Element {
+    return createElement(FrontmatterComponent, {
+      format: this.__format,
+      value: this.__value,
+      nodeKey: this.__key,
+    });
+  }
+
+  isInline(): boolean {
+    return false;
+  }
+}
+
+export function $createFrontmatterNode(format: FrontmatterFormat, value: string): FrontmatterNode {
+  return new FrontmatterNode(format, value);
+}
+
+export function $isFrontmatterNode(node: LexicalNode | null | undefined): node is FrontmatterNode {
+  return node instanceof FrontmatterNode;
+}
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, NodeKey } from 'lexical';
+import { sanitizePreviewHtml } from '../../../markdown/sanitize';
+import { useAssetContext } from '../AssetContext';
+import { $isHtmlBlockNode } from './HtmlBlockNode';
+
+// Delay before re-rendering the preview while the source is being edited
+const PREVIEW_DELAY = 300;
+
+interface HtmlBlockComponentProps {
+  html: string;
+  nodeKey: NodeKey;
+}
+
+export function HtmlBlockComponent({ html, nodeKey }: HtmlBlockComponentProps): JSX.Element {
+  const [editor] = useLexicalComposerContext();
+  const { resolveAssetPath } = useAssetContext();
+  const [isEditing, setIsEditing] = useState(html.trim() === '');
+  const [draft, setDraft] = useState(html);
+  const [previewSource, setPreviewSource] = useState(html);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Keep the draft in sync with external updates while not editing
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(html);
+      setPreviewSource(html);
+    }
+  }, [html, isEditing]);
+
+  // Follow the draft with a short delay so typing stays responsive
+  useEffect(() => {
+    if (!isEditing) return;
+    const timeoutId = setTimeout(() => setPreviewSource(draft), PREVIEW_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [draft, isEditing]);
+
+  // SECURITY: only sanitized markup is rendered. Image paths are resolved
+  // like markdown images so relative paths show up.
+  const preview = useMemo(() => {
+    const template = document.createElement('template');
+    template.innerHTML = sanitizePreviewHtml(previewSource);
+    template.content.querySelectorAll('img').forEach((img) => {
+      const src = img.getAttribute('src');
+      if (src) {
+        img.setAttribute('src', resolveAssetPath(src));
+      }
+    });
+    return template.innerHTML.trim();
+  }, [previewSource, resolveAssetPath]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (isEditing && textarea) {
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  }, [isEditing, draft]);
+
+  const commit = useCallback(() => {
+    if (draft === html) return;
+
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+      if (!$isHtmlBlockNode(node)) return;
+      if (draft.trim() === '') {
+        node.remove();
+      } else {
+        node.setHtml(draft);
+      }
+    });
+  }, [editor, nodeKey, draft, html]);
+
+  const toggleMode = useCallback(() => {
+    if (isEditing) {
+      commit();
+      setPreviewSource(draft);
+    }
+    setIsEditing(!isEditing);
+  }, [isEditing, commit, draft]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      // Keep keystrokes away from Lexical's handlers
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDraft(html);
+        setPreviewSource(html);
+        setIsEditing(false);
+      } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        toggleMode();
+      }
+    },
+    [html, toggleMode]
+  );
+
+  // Links in the preview would navigate the webview away from the document
+  const handlePreviewClick = (e: React.MouseEvent) => {
+    if ((e.target as HTMLElement).closest('a')) {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div className={`html-block-container${isEditing ? ' editing' : ''}`} contentEditable={false}>
+      <div className="html-block-header">
+        <span className="html-block-label">HTML</span>
+        <button
+          type="button"
+          className="html-block-toggle"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            toggleMode();
+          }}
+        >
+          {isEditing ? 'Preview' : 'Edit source'}
+        </button>
+      </div>
+      {isEditing && (
+        <textarea
+          ref={textareaRef}
+          className="html-block-source"
+          value={draft}
+          spellCheck={false}
+          placeholder={'<div align="center">\n  …\n</div>'}
+          autoFocus
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={commit}
+        />
+      )}
+      {preview ? (
+        <div
+          className="html-block-preview"
+          title={isEditing ? undefined : 'Double-click to edit source'}
+          onClick={handlePreviewClick}
+          onDoubleClick={() => setIsEditing(true)}
+          dangerouslySetInnerHTML={{ __html: preview }}
+        />
+      ) : (
+        !isEditing && (
+          // Nothing renders (comments, stripped tags): show the source instead
+          <pre className="html-block-fallback" onDoubleClick={() => setIsEditing(true)}>
+            {previewSource}
+          </pre>
+        )
+      )}
+    </div>
+  );
+}
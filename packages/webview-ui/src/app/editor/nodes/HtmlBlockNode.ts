@@ -0,0 +1,102 @@
+import {
+  DecoratorNode,
+  DOMExportOutput,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode,
+  Spread,
+} from 'lexical';
+import { createElement } from 'react';
+import { HtmlBlockComponent } from './HtmlBlockComponent';
+
+export type SerializedHtmlBlockNode = Spread<
+  {
+    html: string;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * HtmlBlockNode - a raw HTML block (`<div align="center">…</div>`, `<p>`,
+ * `<picture>`, ...). Shown as a sanitized preview with its source a click
+ * away, and written back exactly as it was.
+ */
+export class HtmlBlockNode extends DecoratorNode<JSX.Element> {
+  __html: string;
+
+  static getType(): string {
+    return 'html-block';
+  }
+
+  static clone(node: HtmlBlockNode): HtmlBlockNode {
+    return new HtmlBlockNode(node.__html, node.__key);
+  }
+
+  constructor(html: string, key?: NodeKey) {
+    super(key);
+    this.__html = html;
+  }
+
+  getHtml(): string {
+    return this.__html;
+  }
+
+  setHtml(html: string): void {
+    const writable = this.getWritable();
+    writable.__html = html;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'html-block';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const pre = document.createElement('pre');
+    const code = document.createElement('code');
+    code.className = 'language-html';
+    code.textContent = this.__html;
+    pre.appendChild(code);
+    return { element: pre };
+  }
+
+  static importJSON(serializedNode: SerializedHtmlBlockNode): HtmlBlockNode {
+    return $createHtmlBlockNode(serializedNode.html);
+  }
+
+  exportJSON(): SerializedHtmlBlockNode {
+    return {
+      type: 'html-block',
+      html: this.__html,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return this.__html;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(HtmlBlockComponent, {
+      html: this.__html,
+      nodeKey: this.__key,
+    });
+  }
+
+  isInline(): boolean {
+    return false;
+  }
+}
+
+export function $createHtmlBlockNode(html: string): HtmlBlockNode {
+  return new HtmlBlockNode(html);
+}
+
+export function $isHtmlBlockNode(node: LexicalNode | null | undefined): node is HtmlBlockNode {
+  return node instanceof HtmlBlockNode;
+}
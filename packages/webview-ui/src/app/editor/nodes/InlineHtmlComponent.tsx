@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, NodeKey } from 'lexical';
+import { isAllowedHtml, sanitizeHtml } from '../../../markdown/sanitize';
+import { $isInlineHtmlNode } from './InlineHtmlNode';
+
+// A whole element (`<kbd>…</kbd>`) or a void tag (`<br>`). A lone opening or
+// closing tag would render as nothing, so it is shown as source instead.
+const COMPLETE_HTML = /^(?:<([a-z][a-z0-9]*)\b[^>]*>[\s\S]*<\/\1\s*>|<(?:br|img|hr)\b[^>]*>)$/i;
+
+interface InlineHtmlComponentProps {
+  html: string;
+  nodeKey: NodeKey;
+}
+
+export function InlineHtmlComponent({ html, nodeKey }: InlineHtmlComponentProps): JSX.Element {
+  const [editor] = useLexicalComposerContext();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(html);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Only HTML that passes the allowlist unchanged is rendered
+  const rendered = useMemo(() => {
+    const trimmed = html.trim();
+    return COMPLETE_HTML.test(trimmed) && isAllowedHtml(trimmed) ? sanitizeHtml(trimmed) : null;
+  }, [html]);
+
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(html);
+    }
+  }, [html, isEditing]);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (isEditing && input) {
+      input.focus();
+      input.select();
+    }
+  }, [isEditing]);
+
+  const commit = useCallback(() => {
+    setIsEditing(false);
+    if (draft === html) return;
+
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+      if (!$isInlineHtmlNode(node)) return;
+      if (draft.trim() === '') {
+        node.remove();
+      } else {
+        node.setHtml(draft);
+      }
+    });
+  }, [editor, nodeKey, draft, html]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      // Keep keystrokes away from Lexical's handlers
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDraft(html);
+        setIsEditing(false);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        commit();
+      }
+    },
+    [html, commit]
+  );
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsEditing(true);
+  };
+
+  return (
+    <span className={`inline-html-content${isEditing ? ' editing' : ''}`} contentEditable={false}>
+      {rendered !== null ? (
+        <span
+          className="inline-html-render"
+          title="Double-click to edit HTML"
+          onDoubleClick={startEditing}
+          dangerouslySetInnerHTML={{ __html: rendered }}
+        />
+      ) : (
+        <span className="inline-html-chip" title="Click to edit HTML" onClick={startEditing}>
+          {html}
+        </span>
+      )}
+      {isEditing && (
+        <span className="inline-html-popover">
+          <input
+            ref={inputRef}
+            className="inline-html-input"
+            value={draft}
+            spellCheck={false}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={commit}
+          />
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,99 @@
+import {
+  DecoratorNode,
+  DOMExportOutput,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode,
+  Spread,
+} from 'lexical';
+import { createElement } from 'react';
+import { InlineHtmlComponent } from './InlineHtmlComponent';
+
+export type SerializedInlineHtmlNode = Spread<
+  {
+    html: string;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * InlineHtmlNode - HTML inside running text (`<kbd>`, `<br>`, comments, ...),
+ * written back exactly as it was. Allowed tags are rendered, anything else is
+ * shown as its source.
+ */
+export class InlineHtmlNode extends DecoratorNode<JSX.Element> {
+  __html: string;
+
+  static getType(): string {
+    return 'inline-html';
+  }
+
+  static clone(node: InlineHtmlNode): InlineHtmlNode {
+    return new InlineHtmlNode(node.__html, node.__key);
+  }
+
+  constructor(html: string, key?: NodeKey) {
+    super(key);
+    this.__html = html;
+  }
+
+  getHtml(): string {
+    return this.__html;
+  }
+
+  setHtml(html: string): void {
+    const writable = this.getWritable();
+    writable.__html = html;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('span');
+    element.className = 'inline-html';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('span');
+    element.textContent = this.__html;
+    return { element };
+  }
+
+  static importJSON(serializedNode: SerializedInlineHtmlNode): InlineHtmlNode {
+    return $createInlineHtmlNode(serializedNode.html);
+  }
+
+  exportJSON(): SerializedInlineHtmlNode {
+    return {
+      type: 'inline-html',
+      html: this.__html,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return this.__html;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(InlineHtmlComponent, {
+      html: this.__html,
+      nodeKey: this.__key,
+    });
+  }
+
+  isInline(): boolean {
+    return true;
+  }
+}
+
+export function $createInlineHtmlNode(html: string): InlineHtmlNode {
+  return new InlineHtmlNode(html);
+}
+
+export function $isInlineHtmlNode(node: LexicalNode | null | undefined): node is InlineHtmlNode {
+  return node instanceof InlineHtmlNode;
+}
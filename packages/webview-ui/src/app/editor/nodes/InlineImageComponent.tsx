@@ -0,0 +1,32 @@
+import { useState } from 'react';
+import { useAssetContext } from '../AssetContext';
+
+interface InlineImageComponentProps {
+  src: string;
+  alt: string;
+  title: string | null;
+}
+
+export function InlineImageComponent({ src, alt, title }: InlineImageComponentProps): JSX.Element {
+  const { resolveAssetPath } = useAssetContext();
+  const [failed, setFailed] = useState(false);
+
+  // Show the alt text in place of images that can't be loaded
+  if (failed) {
+    return (
+      <span className="inline-image-missing" title={title ?? src}>
+        {alt || src}
+      </span>
+    );
+  }
+
+  return (
+    <img
+      src={resolveAssetPath(src)}
+      alt={alt}
+      title={title ?? undefined}
+      draggable={false}
+      onError={() => setFailed(true)}
+    />
+  );
+}
@@ -0,0 +1,157 @@
+import {
+  DecoratorNode,
+  DOMExportOutput,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode,
+  Spread,
+  TextFormatType,
+} from 'lexical';
+import { createElement } from 'react';
+import { InlineImageComponent } from './InlineImageComponent';
+import type { LinkReference } from './LinkReferenceNode';
+
+export type SerializedInlineImageNode = Spread<
+  {
+    src: string;
+    alt: string;
+    title: string | null;
+    formats: TextFormatType[];
+    reference?: LinkReference | null;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * InlineImageNode - an image inside running text (badges, icons), which may
+ * sit inside a link. Images that fill a paragraph on their own are ImageNodes.
+ */
+export class InlineImageNode extends DecoratorNode<JSX.Element> {
+  __src: string;
+  __alt: string;
+  __title: string | null;
+  // Formatting around the image (`**![icon](a.png)**`), kept like a text node's
+  __formats: TextFormatType[];
+  // Set for `![alt][label]`, whose src comes from the definition
+  __reference: LinkReference | null;
+
+  static getType(): string {
+    return 'inline-image';
+  }
+
+  static clone(node: InlineImageNode): InlineImageNode {
+    const cloned = new InlineImageNode(node.__src, node.__alt, node.__title, node.__key);
+    cloned.__formats = node.__formats;
+    cloned.__reference = node.__reference;
+    return cloned;
+  }
+
+  constructor(src: string, alt: string, title: string | null = null, key?: NodeKey) {
+    super(key);
+    this.__src = src;
+    this.__alt = alt;
+    this.__title = title;
+    this.__formats = [];
+    this.__reference = null;
+  }
+
+  getSrc(): string {
+    return this.__src;
+  }
+
+  setSrc(src: string): void {
+    const writable = this.getWritable();
+    writable.__src = src;
+  }
+
+  getAlt(): string {
+    return this.__alt;
+  }
+
+  getTitle(): string | null {
+    return this.__title;
+  }
+
+  getReference(): LinkReference | null {
+    return this.__reference;
+  }
+
+  setReference(reference: LinkReference | null): void {
+    const writable = this.getWritable();
+    writable.__reference = reference;
+  }
+
+  hasFormat(format: TextFormatType): boolean {
+    return this.__formats.includes(format);
+  }
+
+  toggleFormat(format: TextFormatType): void {
+    const writable = this.getWritable();
+    writable.__formats = this.hasFormat(format)
+      ? this.__formats.filter((f) => f !== format)
+      : [...this.__formats, format];
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('span');
+    element.className = 'inline-image';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const img = document.createElement('img');
+    img.src = this.__src;
+    img.alt = this.__alt;
+    if (this.__title) {
+      img.title = this.__title;
+    }
+    return { element: img };
+  }
+
+  static importJSON(serializedNode: SerializedInlineImageNode): InlineImageNode {
+    const node = $createInlineImageNode(serializedNode.src, serializedNode.alt, serializedNode.title);
+    node.__formats = serializedNode.formats ?? [];
+    node.__reference = serializedNode.reference ?? null;
+    return node;
+  }
+
+  exportJSON(): SerializedInlineImageNode {
+    return {
+      type: 'inline-image',
+      src: this.__src,
+      alt: this.__alt,
+      title: this.__title,
+      formats: this.__formats,
+      reference: this.__reference,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return this.__alt;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(InlineImageComponent, {
+      src: this.__src,
+      alt: this.__alt,
+      title: this.__title,
+    });
+  }
+
+  isInline(): boolean {
+    return true;
+  }
+}
+
+export function $createInlineImageNode(src: string, alt: string, title: string | null = null): InlineImageNode {
+  return new InlineImageNode(src, alt, title);
+}
+
+export function $isInlineImageNode(node: LexicalNode | null | undefined): node is InlineImageNode {
+  return node instanceof InlineImageNode;
+}
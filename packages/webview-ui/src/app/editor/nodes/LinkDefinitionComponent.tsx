@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, NodeKey } from 'lexical';
+import { $isLinkDefinitionNode, $setLinkDefinitionUrl } from './LinkReferenceNode';
+
+interface LinkDefinitionComponentProps {
+  label: string;
+  url: string;
+  title: string | null;
+  nodeKey: NodeKey;
+}
+
+export function LinkDefinitionComponent({ label, url, title, nodeKey }: LinkDefinitionComponentProps): JSX.Element {
+  const [editor] = useLexicalComposerContext();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(url);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(url);
+    }
+  }, [url, isEditing]);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (isEditing && input) {
+      input.focus();
+      input.select();
+    }
+  }, [isEditing]);
+
+  const commit = useCallback(() => {
+    setIsEditing(false);
+    const next = draft.trim();
+    if (next === '' || next === url) return;
+
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+      if ($isLinkDefinitionNode(node)) {
+        $setLinkDefinitionUrl(node.getIdentifier(), next);
+      }
+    });
+  }, [editor, nodeKey, draft, url]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      // Keep keystrokes away from Lexical's handlers
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDraft(url);
+        setIsEditing(false);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        commit();
+      }
+    },
+    [url, commit]
+  );
+
+  return (
+    <div className="link-definition" contentEditable={false}>
+      <span className="link-definition-label">[{label}]:</span>
+      {isEditing ? (
+        <input
+          ref={inputRef}
+          className="link-definition-input"
+          value={draft}
+          spellCheck={false}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={commit}
+        />
+      ) : (
+        <span
+          className="link-definition-url"
+          title="Click to edit the URL"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setIsEditing(true);
+          }}
+        >
+          {url}
+        </span>
+      )}
+      {title && <span className="link-definition-title">"{title}"</span>}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { $getRoot } from 'lexical';
+import { $createLinkDefinitionNode, $findLinkDefinition } from './LinkReferenceNode';
+import { importMarkdownToLexical } from '../../mapper/mdastToLexical';
+import { createTestEditor } from '../../mapper/testing';
+import { parseMarkdown } from '../../../markdown/parse';
+
+describe('$findLinkDefinition', () => {
+  it('finds the first definition in the document, not the oldest node', () => {
+    const source = '[x][a]\n\n[a]: /second\n';
+    const editor = createTestEditor();
+    importMarkdownToLexical(editor, parseMarkdown(source).root, source);
+
+    editor.update(
+      () => {
+        $getRoot().getFirstChildOrThrow().insertBefore($createLinkDefinitionNode('a', 'a', '/first', null));
+      },
+      { discrete: true }
+    );
+
+    expect(editor.getEditorState().read(() => $findLinkDefinition('a')?.getUrl())).toBe('/first');
+  });
+});
@@ -0,0 +1,257 @@
+import {
+  $getRoot,
+  DecoratorNode,
+  DOMExportOutput,
+  ElementNode,
+  LexicalNode,
+  NodeKey,
+  RangeSelection,
+  SerializedLexicalNode,
+  Spread,
+} from 'lexical';
+import { LinkAttributes, LinkNode, SerializedLinkNode } from '@lexical/link';
+import { $dfs } from '@lexical/utils';
+import { createElement } from 'react';
+import { LinkDefinitionComponent } from './LinkDefinitionComponent';
+import { $isInlineImageNode } from './InlineImageNode';
+
+// `[text][label]`, `[label][]` or `[label]`
+export type ReferenceType = 'full' | 'collapsed' | 'shortcut';
+
+export interface LinkReference {
+  // Normalized form used to match references to definitions
+  identifier: string;
+  // Label as written in the source
+  label: string;
+  referenceType: ReferenceType;
+}
+
+export type SerializedLinkReferenceNode = Spread<LinkReference, SerializedLinkNode>;
+
+export type SerializedLinkDefinitionNode = Spread<
+  {
+    identifier: string;
+    label: string;
+    url: string;
+    title: string | null;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * LinkReferenceNode - a reference-style link. The URL comes from the matching
+ * definition and is only used for display; the reference is what gets saved.
+ */
+export class LinkReferenceNode extends LinkNode {
+  __identifier: string;
+  __label: string;
+  __referenceType: ReferenceType;
+
+  static getType(): string {
+    return 'link-reference';
+  }
+
+  static clone(node: LinkReferenceNode): LinkReferenceNode {
+    return new LinkReferenceNode(
+      node.__url,
+      node.getReference(),
+      { rel: node.__rel, target: node.__target, title: node.__title },
+      node.__key
+    );
+  }
+
+  constructor(url: string, reference: LinkReference, attributes?: LinkAttributes, key?: NodeKey) {
+    super(url, attributes, key);
+    this.__identifier = reference.identifier;
+    this.__label = reference.label;
+    this.__referenceType = reference.referenceType;
+  }
+
+  getReference(): LinkReference {
+    return { identifier: this.__identifier, label: this.__label, referenceType: this.__referenceType };
+  }
+
+  static importJSON(serializedNode: SerializedLinkReferenceNode): LinkReferenceNode {
+    const node = $createLinkReferenceNode(serializedNode.url, serializedNode, {
+      rel: serializedNode.rel,
+      target: serializedNode.target,
+      title: serializedNode.title,
+    });
+    node.setFormat(serializedNode.format);
+    node.setIndent(serializedNode.indent);
+    node.setDirection(serializedNode.direction);
+    return node;
+  }
+
+  exportJSON(): SerializedLinkReferenceNode {
+    return {
+      ...super.exportJSON(),
+      ...this.getReference(),
+      type: 'link-reference',
+      version: 1,
+    };
+  }
+
+  // Text typed at the end of the link continues the same reference
+  insertNewAfter(_: RangeSelection, restoreSelection = true): null | ElementNode {
+    const link = $createLinkReferenceNode(this.__url, this.getReference(), {
+      rel: this.__rel,
+      target: this.__target,
+      title: this.__title,
+    });
+    this.insertAfter(link, restoreSelection);
+    return link;
+  }
+}
+
+/**
+ * LinkDefinitionNode - a `[label]: url "title"` line, kept where it was
+ * written so centralized link tables stay in place
+ */
+export class LinkDefinitionNode extends DecoratorNode<JSX.Element> {
+  __identifier: string;
+  __label: string;
+  __url: string;
+  __title: string | null;
+
+  static getType(): string {
+    return 'link-definition';
+  }
+
+  static clone(node: LinkDefinitionNode): LinkDefinitionNode {
+    return new LinkDefinitionNode(node.__identifier, node.__label, node.__url, node.__title, node.__key);
+  }
+
+  constructor(identifier: string, label: string, url: string, title: string | null = null, key?: NodeKey) {
+    super(key);
+    this.__identifier = identifier;
+    this.__label = label;
+    this.__url = url;
+    this.__title = title;
+  }
+
+  getIdentifier(): string {
+    return this.__identifier;
+  }
+
+  getLabel(): string {
+    return this.__label;
+  }
+
+  getUrl(): string {
+    return this.__url;
+  }
+
+  setUrl(url: string): void {
+    const writable = this.getWritable();
+    writable.__url = url;
+  }
+
+  getTitle(): string | null {
+    return this.__title;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'link-definition-block';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('p');
+    element.textContent = `[${this.__label}]: ${this.__url}`;
+    return { element };
+  }
+
+  static importJSON(serializedNode: SerializedLinkDefinitionNode): LinkDefinitionNode {
+    return $createLinkDefinitionNode(
+      serializedNode.identifier,
+      serializedNode.label,
+      serializedNode.url,
+      serializedNode.title
+    );
+  }
+
+  exportJSON(): SerializedLinkDefinitionNode {
+    return {
+      type: 'link-definition',
+      identifier: this.__identifier,
+      label: this.__label,
+      url: this.__url,
+      title: this.__title,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return `[${this.__label}]: ${this.__url}`;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(LinkDefinitionComponent, {
+      label: this.__label,
+      url: this.__url,
+      title: this.__title,
+      nodeKey: this.__key,
+    });
+  }
+
+  isInline(): boolean {
+    return false;
+  }
+}
+
+export function $createLinkReferenceNode(
+  url: string,
+  reference: LinkReference,
+  attributes?: LinkAttributes
+): LinkReferenceNode {
+  return new LinkReferenceNode(url, reference, attributes);
+}
+
+export function $isLinkReferenceNode(node: LexicalNode | null | undefined): node is LinkReferenceNode {
+  return node instanceof LinkReferenceNode;
+}
+
+export function $createLinkDefinitionNode(
+  identifier: string,
+  label: string,
+  url: string,
+  title: string | null = null
+): LinkDefinitionNode {
+  return new LinkDefinitionNode(identifier, label, url, title);
+}
+
+export function $isLinkDefinitionNode(node: LexicalNode | null | undefined): node is LinkDefinitionNode {
+  return node instanceof LinkDefinitionNode;
+}
+
+// The first definition of a label in the document wins, as in CommonMark
+export function $findLinkDefinition(identifier: string): LinkDefinitionNode | null {
+  for (const { node } of $dfs($getRoot())) {
+    if ($isLinkDefinitionNode(node) && node.getIdentifier() === identifier) {
+      return node;
+    }
+  }
+  return null;
+}
+
+/**
+ * Point a definition at a new URL and update every link and image that
+ * refers to it, so they keep showing where they lead.
+ */
+export function $setLinkDefinitionUrl(identifier: string, url: string): void {
+  $findLinkDefinition(identifier)?.setUrl(url);
+
+  for (const { node } of $dfs($getRoot())) {
+    if ($isLinkReferenceNode(node) && node.getReference().identifier === identifier) {
+      node.setURL(url);
+    } else if ($isInlineImageNode(node) && node.getReference()?.identifier === identifier) {
+      node.setSrc(url);
+    }
+  }
+}
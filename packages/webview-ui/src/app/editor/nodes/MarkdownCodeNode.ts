@@ -0,0 +1,210 @@
+import { EditorConfig, LexicalNode, NodeKey, Spread } from 'lexical';
+import { CodeNode, SerializedCodeNode } from '@lexical/code';
+
+export type SerializedMarkdownCodeNode = Spread<
+  {
+    infoLanguage: string | null;
+    meta: string | null;
+    fence: string | null;
+  },
+  SerializedCodeNode
+>;
+
+// Parts of the meta string the editor understands; everything else in it
+// (`showLineNumbers`, `{.class}`, ...) is kept as written
+export interface CodeMeta {
+  title: string | null;
+  // Line ranges as written, e.g. `3-5,8`
+  highlight: string | null;
+}
+
+const TITLE_PATTERN = /(^|\s)title=(?:"([^"]*)"|'([^']*)'|(\S+))/;
+const HIGHLIGHT_PATTERN = /(^|\s)\{([\d,\s-]+)\}/;
+// Keeps a typo like `{1-99999}` from building a huge background
+const MAX_HIGHLIGHT_LINE = 1000;
+
+/**
+ * MarkdownCodeNode - a CodeNode that keeps the fence line as written: the
+ * language even when there is no highlighter for it, the meta string after
+ * it, and the fence itself (`~~~`, or a longer fence around nested fences).
+ * Registered as a replacement for CodeNode.
+ */
+export class MarkdownCodeNode extends CodeNode {
+  // Language as written; CodeNode only keeps languages Prism knows
+  __infoLanguage: string | null;
+  __meta: string | null;
+  __fence: string | null;
+
+  static getType(): string {
+    return 'markdown-code';
+  }
+
+  static clone(node: MarkdownCodeNode): MarkdownCodeNode {
+    return new MarkdownCodeNode(node.__language, node.__infoLanguage, node.__meta, node.__fence, node.__key);
+  }
+
+  constructor(
+    language?: string | null,
+    infoLanguage: string | null = null,
+    meta: string | null = null,
+    fence: string | null = null,
+    key?: NodeKey
+  ) {
+    super(language, key);
+    this.__infoLanguage = infoLanguage;
+    this.__meta = meta;
+    this.__fence = fence;
+  }
+
+  createDOM(config: EditorConfig): HTMLElement {
+    const element = super.createDOM(config);
+    applyCodeMeta(element, this.__meta);
+    return element;
+  }
+
+  updateDOM(prevNode: MarkdownCodeNode, dom: HTMLElement, config: EditorConfig): boolean {
+    const update = super.updateDOM(prevNode, dom, config);
+    if (prevNode.__meta !== this.__meta) {
+      applyCodeMeta(dom, this.__meta);
+    }
+    return update;
+  }
+
+  getInfoLanguage(): string | null {
+    return this.getLatest().__infoLanguage;
+  }
+
+  setInfoLanguage(language: string | null): void {
+    const writable = this.getWritable();
+    writable.__infoLanguage = language;
+  }
+
+  getMeta(): string | null {
+    return this.getLatest().__meta;
+  }
+
+  setMeta(meta: string | null): void {
+    const writable = this.getWritable();
+    writable.__meta = meta;
+  }
+
+  getFence(): string | null {
+    return this.getLatest().__fence;
+  }
+
+  static importJSON(serializedNode: SerializedMarkdownCodeNode): MarkdownCodeNode {
+    const node = $createMarkdownCodeNode(
+      serializedNode.language,
+      serializedNode.infoLanguage,
+      serializedNode.meta,
+      serializedNode.fence
+    );
+    node.setFormat(serializedNode.format);
+    node.setIndent(serializedNode.indent);
+    node.setDirection(serializedNode.direction);
+    return node;
+  }
+
+  exportJSON(): SerializedMarkdownCodeNode {
+    return {
+      ...super.exportJSON(),
+      type: 'markdown-code',
+      infoLanguage: this.__infoLanguage,
+      meta: this.__meta,
+      fence: this.__fence,
+      version: 1,
+    };
+  }
+}
+
+export function $createMarkdownCodeNode(
+  language?: string | null,
+  infoLanguage: string | null = null,
+  meta: string | null = null,
+  fence: string | null = null
+): MarkdownCodeNode {
+  return new MarkdownCodeNode(language, infoLanguage, meta, fence);
+}
+
+export function $isMarkdownCodeNode(node: LexicalNode | null | undefined): node is MarkdownCodeNode {
+  return node instanceof MarkdownCodeNode;
+}
+
+export function parseCodeMeta(meta: string | null): CodeMeta {
+  const title = meta ? TITLE_PATTERN.exec(meta) : null;
+  const highlight = meta ? HIGHLIGHT_PATTERN.exec(meta) : null;
+  return {
+    title: title ? (title[2] ?? title[3] ?? title[4]) : null,
+    highlight: highlight ? highlight[2].replace(/\s+/g, '') : null,
+  };
+}
+
+// Replace the title or highlighted lines in a meta string, leaving the rest alone
+export function updateCodeMeta(meta: string | null, changes: Partial<CodeMeta>): string | null {
+  let next = meta ?? '';
+
+  if (changes.title !== undefined) {
+    const title = changes.title?.trim();
+    const value = title ? `title="${title.replace(/"/g, "'")}"` : '';
+    next = replaceMetaPart(next, TITLE_PATTERN, value, true);
+  }
+
+  if (changes.highlight !== undefined) {
+    const highlight = changes.highlight?.replace(/[^\d,-]/g, '');
+    next = replaceMetaPart(next, HIGHLIGHT_PATTERN, highlight ? `{${highlight}}` : '', false);
+  }
+
+  next = next.replace(/\s+/g, ' ').trim();
+  return next === '' ? null : next;
+}
+
+function replaceMetaPart(meta: string, pattern: RegExp, value: string, first: boolean): string {
+  const match = pattern.exec(meta);
+  if (match) {
+    return meta.slice(0, match.index) + match[1] + value + meta.slice(match.index + match[0].length);
+  }
+  if (!value) return meta;
+  return first ? `${value} ${meta}` : `${meta} ${value}`;
+}
+
+// Line numbers from ranges like `3-5,8`
+export function expandLineRanges(ranges: string): number[] {
+  const lines = new Set<number>();
+  for (const part of ranges.split(',')) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part.trim());
+    if (!match) continue;
+    const from = parseInt(match[1], 10);
+    const to = Math.min(match[2] ? parseInt(match[2], 10) : from, MAX_HIGHLIGHT_LINE);
+    for (let line = Math.max(from, 1); line <= to; line++) {
+      lines.add(line);
+    }
+  }
+  return [...lines].sort((a, b) => a - b);
+}
+
+// Filename header and highlighted line bands. Lines are drawn as background
+// stripes since the code element holds text and line breaks, not line elements.
+function applyCodeMeta(element: HTMLElement, meta: string | null): void {
+  const { title, highlight } = parseCodeMeta(meta);
+
+  if (title) {
+    element.setAttribute('data-title', title);
+  } else {
+    element.removeAttribute('data-title');
+  }
+
+  const lines = highlight ? expandLineRanges(highlight) : [];
+  if (lines.length === 0) {
+    element.style.removeProperty('background-image');
+    return;
+  }
+
+  const stops: string[] = [];
+  for (const line of lines) {
+    const top = `calc(var(--code-padding-top) + var(--code-line-height) * ${line - 1})`;
+    const bottom = `calc(var(--code-padding-top) + var(--code-line-height) * ${line})`;
+    stops.push(`transparent ${top}`, `var(--slashmd-code-highlight) ${top}`);
+    stops.push(`var(--slashmd-code-highlight) ${bottom}`, `transparent ${bottom}`);
+  }
+  element.style.backgroundImage = `linear-gradient(to bottom, ${stops.join(', ')})`;
+}
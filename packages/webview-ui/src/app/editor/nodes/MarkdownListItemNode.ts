@@ -0,0 +1,71 @@
+import { LexicalNode, NodeKey, Spread } from 'lexical';
+import { ListItemNode, SerializedListItemNode } from '@lexical/list';
+
+export type SerializedMarkdownListItemNode = Spread<
+  {
+    spread: boolean | null;
+  },
+  SerializedListItemNode
+>;
+
+/**
+ * MarkdownListItemNode - a ListItemNode that remembers whether the blocks in
+ * the item were separated by blank lines, so a loose item holding a paragraph
+ * and a code block or table stays loose. Registered as a replacement for
+ * ListItemNode.
+ */
+export class MarkdownListItemNode extends ListItemNode {
+  // Blank lines between the item's blocks; null for items not read from
+  // markdown, which are loose when they hold more than one paragraph
+  __spread: boolean | null;
+
+  static getType(): string {
+    return 'markdown-listitem';
+  }
+
+  static clone(node: MarkdownListItemNode): MarkdownListItemNode {
+    return new MarkdownListItemNode(node.__value, node.__checked, node.__spread, node.__key);
+  }
+
+  constructor(value?: number, checked?: boolean, spread: boolean | null = null, key?: NodeKey) {
+    super(value, checked, key);
+    this.__spread = spread;
+  }
+
+  isSpread(): boolean | null {
+    return this.getLatest().__spread;
+  }
+
+  setSpread(spread: boolean | null): void {
+    const writable = this.getWritable();
+    writable.__spread = spread;
+  }
+
+  static importJSON(serializedNode: SerializedMarkdownListItemNode): MarkdownListItemNode {
+    const node = $createMarkdownListItemNode(serializedNode.checked, serializedNode.spread);
+    node.setValue(serializedNode.value);
+    node.setFormat(serializedNode.format);
+    node.setDirection(serializedNode.direction);
+    return node;
+  }
+
+  exportJSON(): SerializedMarkdownListItemNode {
+    return {
+      ...super.exportJSON(),
+      type: 'markdown-listitem',
+      spread: this.__spread,
+      version: 1,
+    };
+  }
+}
+
+export function $createMarkdownListItemNode(
+  checked?: boolean,
+  spread: boolean | null = null
+): MarkdownListItemNode {
+  return new MarkdownListItemNode(undefined, checked, spread);
+}
+
+export function $isMarkdownListItemNode(node: LexicalNode | null | undefined): node is MarkdownListItemNode {
+  return node instanceof MarkdownListItemNode;
+}
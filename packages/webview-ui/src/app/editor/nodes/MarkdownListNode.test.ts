@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { $createTextNode, $getRoot, $isElementNode, LexicalNode } from 'lexical';
+import { roundTrip } from '../../mapper/testing';
+
+// Append `!` to the first item of a list
+function appendToFirstItem(list: LexicalNode | null) {
+  if ($isElementNode(list)) {
+    list.getFirstDescendant()?.getParent()?.append($createTextNode('!'));
+  }
+}
+
+describe('MarkdownListNode', () => {
+  it.each([
+    ['3. three\n4. four\n\n1) a\n2) b\n', '3. three!\n4. four\n\n1) a\n2) b\n'],
+    ['- a\n- b\n\n* c\n* d\n', '- a!\n- b\n\n* c\n* d\n'],
+    ['1. a\n\n1) b\n', '1. a!\n\n1) b\n'],
+    ['- a\n\n+ b', '- a!\n\n+ b'],
+  ])('keeps lists with different markers apart: %j', (source, edited) => {
+    expect(roundTrip(source)).toBe(source);
+    expect(roundTrip(source, () => appendToFirstItem($getRoot().getFirstChild()))).toBe(edited);
+  });
+
+  it('writes an edited bullet list with its own marker', () => {
+    const result = roundTrip('- a\n\ntext\n\n* b\n', () => appendToFirstItem($getRoot().getLastChild()));
+    expect(result).toBe('- a\n\ntext\n\n* b!\n');
+  });
+});
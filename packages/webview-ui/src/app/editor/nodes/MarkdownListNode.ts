@@ -0,0 +1,235 @@
+import { EditorConfig, LexicalNode, NodeKey, Spread } from 'lexical';
+import { $isListItemNode, $isListNode, ListNode, ListType, SerializedListNode } from '@lexical/list';
+
+// `1.` or `1)`
+export type ListDelimiter = '.' | ')';
+
+// `-`, `*` or `+` before bullet items
+export type BulletMarker = '-' | '*' | '+';
+
+export type SerializedMarkdownListNode = Spread<
+  {
+    delimiter: ListDelimiter;
+    spread: boolean;
+    continues: boolean;
+    bullet?: BulletMarker | null;
+  },
+  SerializedListNode
+>;
+
+/**
+ * MarkdownListNode - a ListNode that remembers how the list was written: the
+ * `.` or `)` after numbers, the bullet marker, blank lines between items, and
+ * whether a numbered list carries on from the one before it. Registered as a
+ * replacement for ListNode, so lists created by Lexical commands are
+ * MarkdownListNodes too.
+ */
+export class MarkdownListNode extends ListNode {
+  __delimiter: ListDelimiter;
+  // Items separated by blank lines (a loose list)
+  __spread: boolean;
+  // Numbering follows on from a numbered list one block earlier (a list split
+  // by a paragraph or code block) instead of starting at its own number
+  __continues: boolean;
+  // Bullet marker as written; null for lists not read from markdown, which
+  // use the document's bullet style
+  __bullet: BulletMarker | null;
+
+  static getType(): string {
+    return 'markdown-list';
+  }
+
+  static clone(node: MarkdownListNode): MarkdownListNode {
+    return new MarkdownListNode(
+      node.getListType(),
+      node.getStart(),
+      node.__delimiter,
+      node.__spread,
+      node.__continues,
+      node.__bullet,
+      node.__key
+    );
+  }
+
+  constructor(
+    listType: ListType,
+    start: number = 1,
+    delimiter: ListDelimiter = '.',
+    spread: boolean = false,
+    continues: boolean = true,
+    bullet: BulletMarker | null = null,
+    key?: NodeKey
+  ) {
+    super(listType, start, key);
+    this.__delimiter = delimiter;
+    this.__spread = spread;
+    this.__continues = continues;
+    this.__bullet = bullet;
+  }
+
+  setStart(start: number): void {
+    const writable = this.getWritable();
+    writable.__start = start;
+  }
+
+  getDelimiter(): ListDelimiter {
+    return this.__delimiter;
+  }
+
+  getBulletMarker(): BulletMarker | null {
+    return this.__bullet;
+  }
+
+  isSpread(): boolean {
+    return this.__spread;
+  }
+
+  continuesNumbering(): boolean {
+    return this.__continues;
+  }
+
+  setContinuesNumbering(continues: boolean): void {
+    const writable = this.getWritable();
+    writable.__continues = continues;
+  }
+
+  // ListNode only re-renders on a tag change, so keep `start` up to date here
+  updateDOM(prevNode: MarkdownListNode, dom: HTMLElement, config: EditorConfig): boolean {
+    if (super.updateDOM(prevNode, dom, config)) {
+      return true;
+    }
+    if (prevNode.__start !== this.__start) {
+      if (this.__start !== 1) {
+        dom.setAttribute('start', String(this.__start));
+      } else {
+        dom.removeAttribute('start');
+      }
+    }
+    return false;
+  }
+
+  static transform(): (node: LexicalNode) => void {
+    const listTransform = ListNode.transform();
+    return (node: LexicalNode) => {
+      // ListNode's transform merges the next list of the same type into this
+      // one, which would turn two lists into one when the markers differ
+      if ($isMarkdownListNode(node) && $isSeparateList(node, node.getNextSibling())) {
+        $updateListItemValues(node);
+      } else {
+        listTransform(node);
+      }
+      if ($isMarkdownListNode(node) && node.isAttached()) {
+        $updateListContinuation(node);
+      }
+    };
+  }
+
+  static importJSON(serializedNode: SerializedMarkdownListNode): MarkdownListNode {
+    const node = $createMarkdownListNode(
+      serializedNode.listType,
+      serializedNode.start,
+      serializedNode.delimiter,
+      serializedNode.spread,
+      serializedNode.continues,
+      serializedNode.bullet ?? null
+    );
+    node.setFormat(serializedNode.format);
+    node.setIndent(serializedNode.indent);
+    node.setDirection(serializedNode.direction);
+    return node;
+  }
+
+  exportJSON(): SerializedMarkdownListNode {
+    return {
+      ...super.exportJSON(),
+      type: 'markdown-list',
+      delimiter: this.__delimiter,
+      spread: this.__spread,
+      continues: this.__continues,
+      bullet: this.__bullet,
+      version: 1,
+    };
+  }
+}
+
+export function $createMarkdownListNode(
+  listType: ListType,
+  start: number = 1,
+  delimiter: ListDelimiter = '.',
+  spread: boolean = false,
+  continues: boolean = true,
+  bullet: BulletMarker | null = null
+): MarkdownListNode {
+  return new MarkdownListNode(listType, start, delimiter, spread, continues, bullet);
+}
+
+export function $isMarkdownListNode(node: LexicalNode | null | undefined): node is MarkdownListNode {
+  return node instanceof MarkdownListNode;
+}
+
+// Lists side by side are one list in markdown unless their markers differ
+// (`1.` then `1)`, `-` then `*`), and only then do they stay apart here
+function $isSeparateList(list: MarkdownListNode, next: LexicalNode | null): boolean {
+  if (!$isMarkdownListNode(next) || next.getListType() !== list.getListType()) {
+    return false;
+  }
+  if (list.getListType() === 'number') {
+    return next.getDelimiter() !== list.getDelimiter();
+  }
+  const bullet = list.getBulletMarker();
+  const nextBullet = next.getBulletMarker();
+  return bullet !== null && nextBullet !== null && bullet !== nextBullet;
+}
+
+// The numbering (and check state) ListNode's transform keeps up to date, for
+// lists that skip it
+function $updateListItemValues(list: ListNode): void {
+  const isChecklist = list.getListType() === 'check';
+  let value = list.getStart();
+  for (const child of list.getChildren()) {
+    if (!$isListItemNode(child)) continue;
+    if (child.getValue() !== value) {
+      child.setValue(value);
+    }
+    if (!isChecklist && child.getChecked() != null) {
+      child.setChecked(undefined);
+    }
+    if (!$isListNode(child.getFirstChild())) {
+      value++;
+    }
+  }
+}
+
+// Number after the last item, counting items the way ListNode numbers them
+function nextListNumber(list: ListNode): number {
+  const items = list.getChildren().filter((child) => $isListItemNode(child) && !$isListNode(child.getFirstChild()));
+  return list.getStart() + items.length;
+}
+
+/**
+ * Start number that carries on from the numbered list one block earlier, or
+ * null when there is no such list (exactly one other block must separate them)
+ */
+export function $getContinuedStart(list: ListNode): number | null {
+  const between = list.getPreviousSibling();
+  const previous = between?.getPreviousSibling();
+  if (list.getListType() !== 'number' || !between || $isListNode(between)) {
+    return null;
+  }
+  if (!$isListNode(previous) || previous.getListType() !== 'number') {
+    return null;
+  }
+  return nextListNumber(previous);
+}
+
+// Keep continuing numbered lists in step, both this one and the one after it
+function $updateListContinuation(list: MarkdownListNode): void {
+  const lists = [list, list.getNextSibling()?.getNextSibling()];
+  for (const node of lists) {
+    if (!$isMarkdownListNode(node) || !node.continuesNumbering()) continue;
+    const start = $getContinuedStart(node);
+    if (start !== null && node.getStart() !== start) {
+      node.setStart(start);
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import {
+  $createLineBreakNode,
+  $createParagraphNode,
+  $createTextNode,
+  $isDecoratorNode,
+  $isElementNode,
+  $isParagraphNode,
+  LexicalNode,
+  NodeKey,
+  ParagraphNode,
+  Spread,
+} from 'lexical';
+import { $isCodeNode } from '@lexical/code';
+import {
+  $createTableCellNode,
+  $createTableRowNode,
+  $isTableCellNode,
+  $isTableRowNode,
+  SerializedTableNode,
+  TableCellHeaderStates,
+  TableCellNode,
+  TableNode,
+  TableRowNode,
+} from '@lexical/table';
+
+// Column alignment from the delimiter row: `:--`, `:-:`, `--:` or `---`
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type SerializedMarkdownTableNode = Spread<
+  {
+    align: TableAlign[];
+  },
+  SerializedTableNode
+>;
+
+/**
+ * MarkdownTableNode - a TableNode that keeps each column's alignment.
+ * Cells show it through their element format, kept in step whenever the
+ * table or a cell changes. Registered as a replacement for TableNode.
+ */
+export class MarkdownTableNode extends TableNode {
+  __align: TableAlign[];
+
+  static getType(): string {
+    return 'markdown-table';
+  }
+
+  static clone(node: MarkdownTableNode): MarkdownTableNode {
+    return new MarkdownTableNode(node.__align, node.__key);
+  }
+
+  constructor(align: TableAlign[] = [], key?: NodeKey) {
+    super(key);
+    this.__align = align;
+  }
+
+  getColumnAlign(column: number): TableAlign {
+    return this.getLatest().__align[column] ?? null;
+  }
+
+  getColumnAlignments(): TableAlign[] {
+    return this.getLatest().__align;
+  }
+
+  setColumnAlign(column: number, align: TableAlign): void {
+    const writable = this.getWritable();
+    const next = [...writable.__align];
+    while (next.length <= column) next.push(null);
+    next[column] = align;
+    writable.__align = next;
+  }
+
+  // Keep alignments with their columns when columns are added, removed or moved
+  insertColumnAlign(column: number): void {
+    const writable = this.getWritable();
+    const next = [...writable.__align];
+    if (column < next.length) next.splice(column, 0, null);
+    writable.__align = next;
+  }
+
+  removeColumnAlign(column: number): void {
+    const writable = this.getWritable();
+    writable.__align = writable.__align.filter((_, index) => index !== column);
+  }
+
+  moveColumnAlign(from: number, to: number): void {
+    const writable = this.getWritable();
+    const next = [...writable.__align];
+    while (next.length <= Math.max(from, to)) next.push(null);
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    writable.__align = next;
+  }
+
+  static transform(): (node: LexicalNode) => void {
+    return (node: LexicalNode) => {
+      if ($isMarkdownTableNode(node)) {
+        $alignTableCells(node);
+      }
+    };
+  }
+
+  static importJSON(serializedNode: SerializedMarkdownTableNode): MarkdownTableNode {
+    const node = $createMarkdownTableNode(serializedNode.align);
+    node.setFormat(serializedNode.format);
+    node.setIndent(serializedNode.indent);
+    node.setDirection(serializedNode.direction);
+    return node;
+  }
+
+  exportJSON(): SerializedMarkdownTableNode {
+    return {
+      ...super.exportJSON(),
+      type: 'markdown-table',
+      align: this.__align,
+      version: 1,
+    };
+  }
+}
+
+export function $createMarkdownTableNode(align: TableAlign[] = []): MarkdownTableNode {
+  return new MarkdownTableNode(align);
+}
+
+export function $isMarkdownTableNode(node: LexicalNode | null | undefined): node is MarkdownTableNode {
+  return node instanceof MarkdownTableNode;
+}
+
+// Show a cell's column alignment through its element format
+export function $alignTableCell(cell: TableCellNode): void {
+  const table = cell.getParent()?.getParent();
+  if (!$isMarkdownTableNode(table)) return;
+
+  const align = table.getColumnAlign(cell.getIndexWithinParent()) ?? '';
+  if (cell.getFormatType() !== align) {
+    cell.setFormat(align);
+  }
+}
+
+export function $alignTableCells(table: MarkdownTableNode): void {
+  for (const row of table.getChildren()) {
+    if (!$isTableRowNode(row)) continue;
+    for (const cell of row.getChildren()) {
+      if ($isTableCellNode(cell)) {
+        $alignTableCell(cell);
+      }
+    }
+  }
+}
+
+// A GFM cell holds a single line of inline content, so block content that
+// lands in one (a list or code block from the slash menu, a paste, ...) is
+// turned back into paragraphs: list items and quote lines become lines of
+// the cell, code becomes inline code.
+export function $keepTableCellInline(cell: TableCellNode): void {
+  for (const child of cell.getChildren()) {
+    if ($isParagraphNode(child)) continue;
+    for (const paragraph of $blockToParagraphs(child)) {
+      child.insertBefore(paragraph);
+    }
+    child.remove();
+  }
+
+  if (cell.getChildrenSize() === 0) {
+    cell.append($createParagraphNode());
+  }
+}
+
+function $blockToParagraphs(node: LexicalNode): ParagraphNode[] {
+  if ($isCodeNode(node)) {
+    const paragraph = $createParagraphNode();
+    node.getTextContent().split('\n').forEach((line, index) => {
+      if (index > 0) paragraph.append($createLineBreakNode());
+      if (line) paragraph.append($createTextNode(line).toggleFormat('code'));
+    });
+    return [paragraph];
+  }
+
+  if ($isElementNode(node) && !node.isInline()) {
+    const paragraphs: ParagraphNode[] = [];
+    let current: ParagraphNode | null = null;
+    for (const child of node.getChildren()) {
+      if (($isElementNode(child) || $isDecoratorNode(child)) && !child.isInline()) {
+        paragraphs.push(...$blockToParagraphs(child));
+        current = null;
+      } else {
+        if (!current) {
+          current = $createParagraphNode();
+          paragraphs.push(current);
+        }
+        current.append(child);
+      }
+    }
+    return paragraphs;
+  }
+
+  // Block decorators (images, diagrams, ...) keep only their text
+  const text = node.getTextContent();
+  return text ? [$createParagraphNode().append($createTextNode(text))] : [];
+}
+
+// A table from rows of plain text (pasted spreadsheet data, a CSV file),
+// with the first row as the header
+export function $createTableFromRows(rows: string[][]): MarkdownTableNode {
+  const table = $createMarkdownTableNode();
+  const columns = Math.max(...rows.map((row) => row.length));
+
+  rows.forEach((values, index) => {
+    const row = $createTableRowNode();
+    for (let column = 0; column < columns; column++) {
+      const cell = $createTableCellNode(index === 0 ? TableCellHeaderStates.ROW : TableCellHeaderStates.NO_STATUS);
+      cell.append($createCellParagraph(values[column] ?? ''));
+      row.append(cell);
+    }
+    table.append(row);
+  });
+
+  return table;
+}
+
+// Write rows of plain text into a table starting at `cell`, adding rows and
+// columns when they run past its edge. Returns the last cell written.
+export function $fillTableCells(cell: TableCellNode, rows: string[][]): TableCellNode {
+  const startRow = cell.getParent();
+  const table = startRow?.getParent();
+  if (!$isTableRowNode(startRow) || !$isMarkdownTableNode(table)) return cell;
+
+  const rowIndex = startRow.getIndexWithinParent();
+  const columnIndex = cell.getIndexWithinParent();
+  const columns = Math.max(
+    columnIndex + Math.max(...rows.map((row) => row.length)),
+    ...table.getChildren().map((row) => ($isTableRowNode(row) ? row.getChildrenSize() : 0))
+  );
+
+  while (table.getChildrenSize() < rowIndex + rows.length) {
+    table.append($createTableRowNode());
+  }
+
+  let last = cell;
+  table.getChildren().forEach((row, index) => {
+    if (!$isTableRowNode(row)) return;
+    $padTableRow(row, columns);
+
+    const values = rows[index - rowIndex];
+    if (!values) return;
+    values.forEach((value, offset) => {
+      const target = row.getChildAtIndex(columnIndex + offset);
+      if (!$isTableCellNode(target)) return;
+      target.clear();
+      target.append($createCellParagraph(value));
+      last = target;
+    });
+  });
+
+  return last;
+}
+
+// Plain text of every cell, one line per line break or paragraph
+export function $getTableRows(table: TableNode): string[][] {
+  return table
+    .getChildren()
+    .filter($isTableRowNode)
+    .map((row) =>
+      row
+        .getChildren()
+        .filter($isTableCellNode)
+        .map((cell) => cell.getChildren().map((child) => child.getTextContent()).join('\n'))
+    );
+}
+
+function $padTableRow(row: TableRowNode, columns: number): void {
+  const first = row.getFirstChild();
+  const header =
+    $isTableCellNode(first) && first.hasHeaderState(TableCellHeaderStates.ROW)
+      ? TableCellHeaderStates.ROW
+      : TableCellHeaderStates.NO_STATUS;
+
+  while (row.getChildrenSize() < columns) {
+    const cell = $createTableCellNode(header);
+    cell.append($createParagraphNode());
+    row.append(cell);
+  }
+}
+
+function $createCellParagraph(value: string): ParagraphNode {
+  const paragraph = $createParagraphNode();
+  value.trim().split('\n').forEach((line, index) => {
+    if (index > 0) paragraph.append($createLineBreakNode());
+    if (line) paragraph.append($createTextNode(line));
+  });
+  return paragraph;
+}
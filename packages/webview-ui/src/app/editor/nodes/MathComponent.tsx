@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, NodeKey } from 'lexical';
+import katex from 'katex';
+import { $isBlockMathNode, $isInlineMathNode } from './MathNode';
+
+interface MathComponentProps {
+  equation: string;
+  inline: boolean;
+  nodeKey: NodeKey;
+}
+
+export function MathComponent({ equation, inline, nodeKey }: MathComponentProps): JSX.Element {
+  const [editor] = useLexicalComposerContext();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(equation);
+  const renderRef = useRef<HTMLSpanElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Keep the draft in sync with external updates while not editing
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(equation);
+    }
+  }, [equation, isEditing]);
+
+  // Render the equation (or the draft, as a live preview) with KaTeX
+  const source = isEditing ? draft : equation;
+  useEffect(() => {
+    const element = renderRef.current;
+    if (!element) return;
+
+    if (!source.trim()) {
+      element.textContent = inline ? '$…$' : 'Empty equation';
+      return;
+    }
+
+    katex.render(source, element, {
+      displayMode: !inline,
+      throwOnError: false,
+    });
+  }, [source, inline]);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (isEditing && input) {
+      input.focus();
+      input.select();
+    }
+  }, [isEditing]);
+
+  const commit = useCallback(() => {
+    setIsEditing(false);
+    if (draft === equation) return;
+
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+      if ($isInlineMathNode(node) || $isBlockMathNode(node)) {
+        node.setEquation(draft);
+      }
+    });
+  }, [editor, nodeKey, draft, equation]);
+
+  const cancel = useCallback(() => {
+    setDraft(equation);
+    setIsEditing(false);
+  }, [equation]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      // Keep keystrokes away from Lexical's handlers
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        cancel();
+      } else if (e.key === 'Enter' && (inline || e.metaKey || e.ctrlKey)) {
+        // Inline math is a single line; block math needs Cmd/Ctrl+Enter
+        e.preventDefault();
+        commit();
+      }
+    },
+    [inline, cancel, commit]
+  );
+
+  const className = inline ? 'math-inline-content' : 'math-block-content';
+
+  return (
+    <span
+      className={`${className}${isEditing ? ' editing' : ''}${equation.trim() ? '' : ' empty'}`}
+      contentEditable={false}
+    >
+      <span
+        ref={renderRef}
+        className="math-render"
+        title="Click to edit equation"
+        onClick={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setIsEditing(true);
+        }}
+      />
+      {isEditing && (
+        <span className="math-popover">
+          <textarea
+            ref={inputRef}
+            className="math-input"
+            value={draft}
+            rows={inline ? 1 : 3}
+            spellCheck={false}
+            placeholder="TeX, e.g. e^{i\pi} + 1 = 0"
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={commit}
+          />
+          <span className="math-hint">
+            {inline ? 'Enter' : 'Cmd/Ctrl+Enter'} to save, Esc to cancel
+          </span>
+        </span>
+      )}
+    </span>
+  );
+}
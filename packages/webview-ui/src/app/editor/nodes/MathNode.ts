@@ -0,0 +1,195 @@
+import {
+  DecoratorNode,
+  DOMExportOutput,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode,
+  Spread,
+} from 'lexical';
+import { createElement } from 'react';
+import { MathComponent } from './MathComponent';
+
+export type SerializedInlineMathNode = Spread<
+  {
+    equation: string;
+  },
+  SerializedLexicalNode
+>;
+
+export type SerializedBlockMathNode = Spread<
+  {
+    equation: string;
+    meta: string | null;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * InlineMathNode - TeX inside a line of text (`$…$`)
+ */
+export class InlineMathNode extends DecoratorNode<JSX.Element> {
+  __equation: string;
+
+  static getType(): string {
+    return 'inline-math';
+  }
+
+  static clone(node: InlineMathNode): InlineMathNode {
+    return new InlineMathNode(node.__equation, node.__key);
+  }
+
+  constructor(equation: string, key?: NodeKey) {
+    super(key);
+    this.__equation = equation;
+  }
+
+  getEquation(): string {
+    return this.__equation;
+  }
+
+  setEquation(equation: string): void {
+    const writable = this.getWritable();
+    writable.__equation = equation;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('span');
+    element.className = 'math-inline';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('span');
+    element.textContent = `$${this.__equation}$`;
+    return { element };
+  }
+
+  static importJSON(serializedNode: SerializedInlineMathNode): InlineMathNode {
+    return $createInlineMathNode(serializedNode.equation);
+  }
+
+  exportJSON(): SerializedInlineMathNode {
+    return {
+      type: 'inline-math',
+      equation: this.__equation,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return this.__equation;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(MathComponent, {
+      equation: this.__equation,
+      inline: true,
+      nodeKey: this.__key,
+    });
+  }
+
+  isInline(): boolean {
+    return true;
+  }
+}
+
+/**
+ * BlockMathNode - display math on its own lines (`$$…$$`)
+ */
+export class BlockMathNode extends DecoratorNode<JSX.Element> {
+  __equation: string;
+  __meta: string | null;
+
+  static getType(): string {
+    return 'block-math';
+  }
+
+  static clone(node: BlockMathNode): BlockMathNode {
+    return new BlockMathNode(node.__equation, node.__meta, node.__key);
+  }
+
+  constructor(equation: string, meta: string | null = null, key?: NodeKey) {
+    super(key);
+    this.__equation = equation;
+    this.__meta = meta;
+  }
+
+  getEquation(): string {
+    return this.__equation;
+  }
+
+  setEquation(equation: string): void {
+    const writable = this.getWritable();
+    writable.__equation = equation;
+  }
+
+  // Text after the opening `$$`, kept so it survives a round-trip
+  getMeta(): string | null {
+    return this.__meta;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'math-block';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('div');
+    element.textContent = `$$\n${this.__equation}\n$$`;
+    return { element };
+  }
+
+  static importJSON(serializedNode: SerializedBlockMathNode): BlockMathNode {
+    return $createBlockMathNode(serializedNode.equation, serializedNode.meta);
+  }
+
+  exportJSON(): SerializedBlockMathNode {
+    return {
+      type: 'block-math',
+      equation: this.__equation,
+      meta: this.__meta,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return this.__equation;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(MathComponent, {
+      equation: this.__equation,
+      inline: false,
+      nodeKey: this.__key,
+    });
+  }
+
+  isInline(): boolean {
+    return false;
+  }
+}
+
+export function $createInlineMathNode(equation: string): InlineMathNode {
+  return new InlineMathNode(equation);
+}
+
+export function $isInlineMathNode(node: LexicalNode | null | undefined): node is InlineMathNode {
+  return node instanceof InlineMathNode;
+}
+
+export function $createBlockMathNode(equation: string, meta: string | null = null): BlockMathNode {
+  return new BlockMathNode(equation, meta);
+}
+
+export function $isBlockMathNode(node: LexicalNode | null | undefined): node is BlockMathNode {
+  return node instanceof BlockMathNode;
+}
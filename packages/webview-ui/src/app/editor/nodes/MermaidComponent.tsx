@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, NodeKey } from 'lexical';
+import type { Mermaid } from 'mermaid';
+import { $isMermaidNode } from './MermaidNode';
+
+// Delay before re-rendering the preview while the source is being edited
+const PREVIEW_DELAY = 300;
+
+let mermaidLoading: Promise<Mermaid> | null = null;
+let renderCount = 0;
+
+// Mermaid is larger than the rest of the editor together, so it is split into
+// its own chunk and only fetched once a document shows a diagram
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidLoading) {
+    mermaidLoading = import('mermaid').then(({ default: mermaid }) => {
+      const isDark =
+        document.body.classList.contains('vscode-dark') ||
+        document.body.classList.contains('vscode-high-contrast');
+
+      mermaid.initialize({
+        startOnLoad: false,
+        // Strict mode disables click handlers and sanitizes labels
+        securityLevel: 'strict',
+        theme: isDark ? 'dark' : 'default',
+        // Report errors to us instead of drawing mermaid's error diagram
+        suppressErrorRendering: true,
+      });
+      return mermaid;
+    });
+    // Let a later diagram try again when the chunk failed to load
+    mermaidLoading.catch(() => {
+      mermaidLoading = null;
+    });
+  }
+  return mermaidLoading;
+}
+
+interface MermaidComponentProps {
+  code: string;
+  nodeKey: NodeKey;
+}
+
+export function MermaidComponent({ code, nodeKey }: MermaidComponentProps): JSX.Element {
+  const [editor] = useLexicalComposerContext();
+  const [isEditing, setIsEditing] = useState(code.trim() === '');
+  const [draft, setDraft] = useState(code);
+  const [previewSource, setPreviewSource] = useState(code);
+  const [error, setError] = useState<string | null>(null);
+  const diagramRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Keep the draft in sync with external updates while not editing
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(code);
+      setPreviewSource(code);
+    }
+  }, [code, isEditing]);
+
+  // Follow the draft with a short delay so typing stays responsive
+  useEffect(() => {
+    if (!isEditing) return;
+    const timeoutId = setTimeout(() => setPreviewSource(draft), PREVIEW_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [draft, isEditing]);
+
+  useEffect(() => {
+    const container = diagramRef.current;
+    if (!container) return;
+
+    if (!previewSource.trim()) {
+      container.innerHTML = '';
+      setError(null);
+      return;
+    }
+
+    // Ignore results from renders that finished after a newer one started
+    let cancelled = false;
+
+    loadMermaid()
+      .then((mermaid) => mermaid.render(`slashmd-mermaid-${++renderCount}`, previewSource))
+      .then(({ svg, bindFunctions }) => {
+        if (cancelled) return;
+        container.innerHTML = svg;
+        bindFunctions?.(container);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewSource]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (isEditing && textarea) {
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  }, [isEditing, draft]);
+
+  const commit = useCallback(() => {
+    if (draft === code) return;
+
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+      if ($isMermaidNode(node)) {
+        node.setCode(draft);
+      }
+    });
+  }, [editor, nodeKey, draft, code]);
+
+  const toggleMode = useCallback(() => {
+    if (isEditing) {
+      commit();
+      setPreviewSource(draft);
+    }
+    setIsEditing(!isEditing);
+  }, [isEditing, commit, draft]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      // Keep keystrokes away from Lexical's handlers
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDraft(code);
+        setPreviewSource(code);
+        setIsEditing(false);
+      } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        toggleMode();
+      }
+    },
+    [code, toggleMode]
+  );
+
+  return (
+    <div className={`mermaid-diagram${isEditing ? ' editing' : ''}`} contentEditable={false}>
+      <div className="mermaid-header">
+        <span className="mermaid-label">Mermaid</span>
+        <button
+          type="button"
+          className="mermaid-toggle"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            toggleMode();
+          }}
+        >
+          {isEditing ? 'Preview' : 'Edit source'}
+        </button>
+      </div>
+      {isEditing && (
+        <textarea
+          ref={textareaRef}
+          className="mermaid-source"
+          value={draft}
+          spellCheck={false}
+          placeholder={'flowchart TD\n  A --> B'}
+          autoFocus
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={commit}
+        />
+      )}
+      {error && (
+        <div className="mermaid-error" role="alert">
+          {error}
+        </div>
+      )}
+      <div
+        ref={diagramRef}
+        className="mermaid-preview"
+        title={isEditing ? undefined : 'Double-click to edit source'}
+        onDoubleClick={() => setIsEditing(true)}
+      />
+    </div>
+  );
+}
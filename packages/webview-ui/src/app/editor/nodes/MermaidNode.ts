@@ -0,0 +1,110 @@
+import {
+  DecoratorNode,
+  DOMExportOutput,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode,
+  Spread,
+} from 'lexical';
+import { createElement } from 'react';
+import { MermaidComponent } from './MermaidComponent';
+
+export type SerializedMermaidNode = Spread<
+  {
+    code: string;
+    meta: string | null;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * MermaidNode - a ```` ```mermaid ```` fence rendered as a diagram.
+ * Serializes back to an ordinary fenced code block.
+ */
+export class MermaidNode extends DecoratorNode<JSX.Element> {
+  __code: string;
+  __meta: string | null;
+
+  static getType(): string {
+    return 'mermaid';
+  }
+
+  static clone(node: MermaidNode): MermaidNode {
+    return new MermaidNode(node.__code, node.__meta, node.__key);
+  }
+
+  constructor(code: string, meta: string | null = null, key?: NodeKey) {
+    super(key);
+    this.__code = code;
+    this.__meta = meta;
+  }
+
+  getCode(): string {
+    return this.__code;
+  }
+
+  setCode(code: string): void {
+    const writable = this.getWritable();
+    writable.__code = code;
+  }
+
+  // Text after the language on the opening fence, kept so it survives a round-trip
+  getMeta(): string | null {
+    return this.__meta;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'mermaid-block';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const pre = document.createElement('pre');
+    const code = document.createElement('code');
+    code.className = 'language-mermaid';
+    code.textContent = this.__code;
+    pre.appendChild(code);
+    return { element: pre };
+  }
+
+  static importJSON(serializedNode: SerializedMermaidNode): MermaidNode {
+    return $createMermaidNode(serializedNode.code, serializedNode.meta);
+  }
+
+  exportJSON(): SerializedMermaidNode {
+    return {
+      type: 'mermaid',
+      code: this.__code,
+      meta: this.__meta,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return this.__code;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(MermaidComponent, {
+      code: this.__code,
+      nodeKey: this.__key,
+    });
+  }
+
+  isInline(): boolean {
+    return false;
+  }
+}
+
+export function $createMermaidNode(code: string, meta: string | null = null): MermaidNode {
+  return new MermaidNode(code, meta);
+}
+
+export function $isMermaidNode(node: LexicalNode | null | undefined): node is MermaidNode {
+  return node instanceof MermaidNode;
+}
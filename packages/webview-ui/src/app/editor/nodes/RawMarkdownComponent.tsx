@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNodeByKey, NodeKey } from 'lexical';
+import { $isRawMarkdownNode } from './RawMarkdownNode';
+
+interface RawMarkdownComponentProps {
+  markdown: string;
+  nodeKey: NodeKey;
+}
+
+export function RawMarkdownComponent({ markdown, nodeKey }: RawMarkdownComponentProps): JSX.Element {
+  const [editor] = useLexicalComposerContext();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(markdown);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Keep the draft in sync with external updates while not editing
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(markdown);
+    }
+  }, [markdown, isEditing]);
+
+  // Focus and size the textarea when entering edit mode
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (isEditing && textarea) {
+      textarea.focus();
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  }, [isEditing]);
+
+  const commit = useCallback(() => {
+    setIsEditing(false);
+    if (draft === markdown) return;
+
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+      if ($isRawMarkdownNode(node)) {
+        node.setMarkdown(draft);
+      }
+    });
+  }, [editor, nodeKey, draft, markdown]);
+
+  const cancel = useCallback(() => {
+    setDraft(markdown);
+    setIsEditing(false);
+  }, [markdown]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      // Keep keystrokes away from Lexical's handlers
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        cancel();
+      } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        commit();
+      }
+    },
+    [cancel, commit]
+  );
+
+  return (
+    <div className="raw-markdown" contentEditable={false}>
+      <div className="raw-markdown-header">
+        <span className="raw-markdown-label">Markdown</span>
+        {!isEditing && (
+          <button
+            type="button"
+            className="raw-markdown-edit"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              setIsEditing(true);
+            }}
+          >
+            Edit
+          </button>
+        )}
+      </div>
+      {isEditing ? (
+        <textarea
+          ref={textareaRef}
+          className="raw-markdown-input"
+          value={draft}
+          spellCheck={false}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            e.target.style.height = `${e.target.scrollHeight}px`;
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={commit}
+        />
+      ) : (
+        <pre className="raw-markdown-source" title="Not editable as blocks - saved exactly as written">
+          {markdown}
+        </pre>
+      )}
+    </div>
+  );
+}
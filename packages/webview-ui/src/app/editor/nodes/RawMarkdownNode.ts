@@ -0,0 +1,98 @@
+import {
+  DecoratorNode,
+  DOMExportOutput,
+  LexicalNode,
+  NodeKey,
+  SerializedLexicalNode,
+  Spread,
+} from 'lexical';
+import { createElement } from 'react';
+import { RawMarkdownComponent } from './RawMarkdownComponent';
+
+export type SerializedRawMarkdownNode = Spread<
+  {
+    markdown: string;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * Holds markdown the mapper does not understand (directives, ...) exactly as it appeared in the source, so it can be
+ * written back verbatim instead of being corrupted.
+ */
+export class RawMarkdownNode extends DecoratorNode<JSX.Element> {
+  __markdown: string;
+
+  static getType(): string {
+    return 'raw-markdown';
+  }
+
+  static clone(node: RawMarkdownNode): RawMarkdownNode {
+    return new RawMarkdownNode(node.__markdown, node.__key);
+  }
+
+  constructor(markdown: string, key?: NodeKey) {
+    super(key);
+    this.__markdown = markdown;
+  }
+
+  getMarkdown(): string {
+    return this.__markdown;
+  }
+
+  setMarkdown(markdown: string): void {
+    const writable = this.getWritable();
+    writable.__markdown = markdown;
+  }
+
+  createDOM(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'raw-markdown-block';
+    return element;
+  }
+
+  updateDOM(): boolean {
+    return false;
+  }
+
+  exportDOM(): DOMExportOutput {
+    const element = document.createElement('pre');
+    element.textContent = this.__markdown;
+    return { element };
+  }
+
+  static importJSON(serializedNode: SerializedRawMarkdownNode): RawMarkdownNode {
+    return $createRawMarkdownNode(serializedNode.markdown);
+  }
+
+  exportJSON(): SerializedRawMarkdownNode {
+    return {
+      type: 'raw-markdown',
+      markdown: this.__markdown,
+      version: 1,
+    };
+  }
+
+  getTextContent(): string {
+    return this.__markdown;
+  }
+
+  decorate(): JSX.Element {
+    return createElement(RawMarkdownComponent, {
+      markdown: this.__markdown,
+      nodeKey: this.__key,
+    });
+  }
+
+  isInline(): boolean {
+    return false;
+  }
+}
+
+export function $createRawMarkdownNode(markdown: string): RawMarkdownNode {
+  return new RawMarkdownNode(markdown);
+}
+
+export function $isRawMarkdownNode(node: LexicalNode | null | undefined): node is RawMarkdownNode {
+  return node instanceof RawMarkdownNode;
+}
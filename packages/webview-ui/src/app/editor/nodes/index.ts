@@ -1,5 +1,5 @@
-export { CalloutNode, $createCalloutNode, $isCalloutNode } from './CalloutNode';
-export type { CalloutType, SerializedCalloutNode } from './CalloutNode';
+export { CalloutNode, $createCalloutNode, $isCalloutNode, CALLOUT_EMOJI } from './CalloutNode';
+export type { CalloutType, CalloutFold, SerializedCalloutNode } from './CalloutNode';
 
 export {
   ToggleContainerNode,
@@ -29,3 +29,101 @@ export type { SerializedImageNode } from './ImageNode';
 
 export { HorizontalRuleNode, $createHorizontalRuleNode, $isHorizontalRuleNode } from './HorizontalRuleNode';
 export type { SerializedHorizontalRuleNode } from './HorizontalRuleNode';
+
+export { RawMarkdownNode, $createRawMarkdownNode, $isRawMarkdownNode } from './RawMarkdownNode';
+export type { SerializedRawMarkdownNode } from './RawMarkdownNode';
+
+export { FrontmatterNode, $createFrontmatterNode, $isFrontmatterNode } from './FrontmatterNode';
+export type { FrontmatterFormat, SerializedFrontmatterNode } from './FrontmatterNode';
+
+export {
+  InlineMathNode,
+  BlockMathNode,
+  $createInlineMathNode,
+  $createBlockMathNode,
+  $isInlineMathNode,
+  $isBlockMathNode,
+} from './MathNode';
+export type { SerializedInlineMathNode, SerializedBlockMathNode } from './MathNode';
+
+export { MermaidNode, $createMermaidNode, $isMermaidNode } from './MermaidNode';
+export type { SerializedMermaidNode } from './MermaidNode';
+
+export {
+  FootnoteRefNode,
+  FootnoteDefinitionNode,
+  $createFootnoteRefNode,
+  $createFootnoteDefinitionNode,
+  $isFootnoteRefNode,
+  $isFootnoteDefinitionNode,
+  $getFootnoteNumbers,
+  $getNextFootnoteIdentifier,
+} from './FootnoteNode';
+export type { SerializedFootnoteRefNode, SerializedFootnoteDefinitionNode } from './FootnoteNode';
+
+export { InlineImageNode, $createInlineImageNode, $isInlineImageNode } from './InlineImageNode';
+export type { SerializedInlineImageNode } from './InlineImageNode';
+
+export { InlineHtmlNode, $createInlineHtmlNode, $isInlineHtmlNode } from './InlineHtmlNode';
+export type { SerializedInlineHtmlNode } from './InlineHtmlNode';
+
+export { HtmlBlockNode, $createHtmlBlockNode, $isHtmlBlockNode } from './HtmlBlockNode';
+export type { SerializedHtmlBlockNode } from './HtmlBlockNode';
+
+export { CommentNode, $createCommentNode, $isCommentNode, isComment } from './CommentNode';
+export type { SerializedCommentNode } from './CommentNode';
+
+export {
+  LinkReferenceNode,
+  LinkDefinitionNode,
+  $createLinkReferenceNode,
+  $createLinkDefinitionNode,
+  $isLinkReferenceNode,
+  $isLinkDefinitionNode,
+  $findLinkDefinition,
+  $setLinkDefinitionUrl,
+} from './LinkReferenceNode';
+export type {
+  LinkReference,
+  ReferenceType,
+  SerializedLinkReferenceNode,
+  SerializedLinkDefinitionNode,
+} from './LinkReferenceNode';
+
+export {
+  MarkdownListNode,
+  $createMarkdownListNode,
+  $isMarkdownListNode,
+  $getContinuedStart,
+} from './MarkdownListNode';
+export type { BulletMarker, ListDelimiter, SerializedMarkdownListNode } from './MarkdownListNode';
+
+export {
+  MarkdownListItemNode,
+  $createMarkdownListItemNode,
+  $isMarkdownListItemNode,
+} from './MarkdownListItemNode';
+export type { SerializedMarkdownListItemNode } from './MarkdownListItemNode';
+
+export {
+  MarkdownCodeNode,
+  $createMarkdownCodeNode,
+  $isMarkdownCodeNode,
+  parseCodeMeta,
+  updateCodeMeta,
+  expandLineRanges,
+} from './MarkdownCodeNode';
+export type { CodeMeta, SerializedMarkdownCodeNode } from './MarkdownCodeNode';
+
+export {
+  MarkdownTableNode,
+  $createMarkdownTableNode,
+  $isMarkdownTableNode,
+  $alignTableCell,
+  $alignTableCells,
+  $keepTableCellInline,
+  $createTableFromRows,
+  $fillTableCells,
+  $getTableRows,
+} from './MarkdownTableNode';
+export type { TableAlign, SerializedMarkdownTableNode } from './MarkdownTableNode';
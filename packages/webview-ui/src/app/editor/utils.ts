@@ -1,5 +1,11 @@
-import { $isAtNodeEnd } from '@lexical/selection';
-import { ElementNode, RangeSelection, TextNode } from 'lexical';
+import { $isAtNodeEnd, $setBlocksType } from '@lexical/selection';
+import { $createHeadingNode, $isHeadingNode, HeadingTagType } from '@lexical/rich-text';
+import { $createParagraphNode, $isParagraphNode, $isRootNode, ElementNode, RangeSelection, TextNode } from 'lexical';
+
+// Text blocks the selection can be turned into
+export type TextBlockType = 'paragraph' | HeadingTagType;
+
+export const HEADING_TAGS: HeadingTagType[] = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
 
 export function getSelectedNode(selection: RangeSelection): TextNode | ElementNode {
   const anchor = selection.anchor;
@@ -18,3 +24,16 @@ export function getSelectedNode(selection: RangeSelection): TextNode | ElementNo
     return $isAtNodeEnd(anchor) ? focusNode : anchorNode;
   }
 }
+
+// Paragraph or heading level of the block holding the selection, null for other blocks
+export function $getTextBlockType(selection: RangeSelection): TextBlockType | null {
+  const anchorNode = selection.anchor.getNode();
+  const block = $isRootNode(anchorNode) ? null : anchorNode.getTopLevelElement();
+  if ($isHeadingNode(block)) return block.getTag();
+  if ($isParagraphNode(block)) return 'paragraph';
+  return null;
+}
+
+export function $setTextBlockType(selection: RangeSelection, type: TextBlockType): void {
+  $setBlocksType(selection, () => (type === 'paragraph' ? $createParagraphNode() : $createHeadingNode(type)));
+}
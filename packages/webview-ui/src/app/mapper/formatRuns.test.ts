@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { PhrasingContent } from 'mdast';
+import { buildPhrasingContent, EMPHASIS, InlineMark, STRONG, SUPERSCRIPT } from './formatRuns';
+
+function text(value: string, ...marks: InlineMark[]) {
+  return { node: { type: 'text', value } as PhrasingContent, marks };
+}
+
+describe('buildPhrasingContent', () => {
+  it('keeps a mark open across runs that share it', () => {
+    expect(buildPhrasingContent([text('bold ', STRONG), text('and italic', STRONG, EMPHASIS)])).toEqual([
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', value: 'bold ' },
+          { type: 'emphasis', children: [{ type: 'text', value: 'and italic' }] },
+        ],
+      },
+    ]);
+  });
+
+  it('gives a line break the marks of the text around it', () => {
+    const result = buildPhrasingContent([
+      text('one', STRONG),
+      { node: { type: 'break' }, marks: [] },
+      text('two', STRONG),
+    ]);
+    expect(result).toEqual([
+      {
+        type: 'strong',
+        children: [{ type: 'text', value: 'one' }, { type: 'break' }, { type: 'text', value: 'two' }],
+      },
+    ]);
+  });
+
+  it('puts links outside other marks and HTML tags outside markdown delimiters', () => {
+    const link: InlineMark = { type: 'link', url: 'https://example.com', title: null };
+    const [outer] = buildPhrasingContent([text('x', STRONG, SUPERSCRIPT, link)]);
+    expect(outer.type).toBe('link');
+    expect(JSON.stringify(outer)).toMatch(/"html".*"<sup>".*"strong"/);
+  });
+});
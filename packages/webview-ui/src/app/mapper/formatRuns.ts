@@ -0,0 +1,153 @@
+import type { PhrasingContent, Link, LinkReference, ReferenceType } from 'mdast';
+
+// Formatting that wraps inline content. Marks are compared by identity: the
+// formats are shared constants and every link gets its own mark.
+export type InlineMark =
+  | { type: 'strong' }
+  | { type: 'emphasis' }
+  | { type: 'delete' }
+  | { type: 'link'; url: string; title: string | null }
+  | { type: 'linkReference'; identifier: string; label: string; referenceType: ReferenceType }
+  // Formats markdown has no syntax for, written as HTML tags
+  | { type: 'html'; tag: 'sup' | 'sub' | 'mark' };
+
+export const STRONG: InlineMark = { type: 'strong' };
+export const EMPHASIS: InlineMark = { type: 'emphasis' };
+export const DELETE: InlineMark = { type: 'delete' };
+export const SUPERSCRIPT: InlineMark = { type: 'html', tag: 'sup' };
+export const SUBSCRIPT: InlineMark = { type: 'html', tag: 'sub' };
+export const HIGHLIGHT: InlineMark = { type: 'html', tag: 'mark' };
+
+// A piece of unformatted inline content (text, inline code, math, ...) and
+// the marks that apply to it
+export interface InlineRun {
+  node: PhrasingContent;
+  marks: InlineMark[];
+}
+
+// When two marks span the same runs, the first one here goes outside. HTML
+// tags go around markdown delimiters, which stay valid inside them.
+const MARK_ORDER: InlineMark['type'][] = ['link', 'linkReference', 'html', 'strong', 'emphasis', 'delete'];
+
+/**
+ * Turn a flat list of formatted runs into nested strong/emphasis/delete/link
+ * (and HTML tag) nodes. Each mark is opened where it starts and kept open for as long as it
+ * lasts, so `**bold _and italic_**` stays one strong node instead of being
+ * split into fragments that render differently.
+ */
+export function buildPhrasingContent(runs: InlineRun[]): PhrasingContent[] {
+  return buildRange(inheritBreakMarks(runs), 0, runs.length, []);
+}
+
+// Line breaks carry no formatting of their own. A break takes the marks its
+// neighbours share, so bold text broken over two lines stays one `**` span.
+function inheritBreakMarks(runs: InlineRun[]): InlineRun[] {
+  return runs.map((run, i) => {
+    const before = runs[i - 1];
+    const after = runs[i + 1];
+    if (run.node.type !== 'break' || !before || !after) return run;
+
+    const shared = before.marks.filter((mark) => after.marks.includes(mark) && !run.marks.includes(mark));
+    return shared.length > 0 ? { ...run, marks: [...run.marks, ...shared] } : run;
+  });
+}
+
+function buildRange(runs: InlineRun[], start: number, end: number, open: InlineMark[]): PhrasingContent[] {
+  const result: PhrasingContent[] = [];
+  let i = start;
+
+  while (i < end) {
+    const pending = runs[i].marks.filter((mark) => !open.includes(mark));
+
+    if (pending.length === 0) {
+      pushMerged(result, runs[i].node);
+      i++;
+      continue;
+    }
+
+    // Open the mark that lasts longest from here, so it can enclose the others
+    let best = pending[0];
+    let bestEnd = markEnd(runs, i, end, best);
+    for (const mark of pending.slice(1)) {
+      const markEndIndex = markEnd(runs, i, end, mark);
+      if (
+        markEndIndex > bestEnd ||
+        (markEndIndex === bestEnd && MARK_ORDER.indexOf(mark.type) < MARK_ORDER.indexOf(best.type))
+      ) {
+        best = mark;
+        bestEnd = markEndIndex;
+      }
+    }
+
+    const children = buildRange(runs, i, bestEnd, [...open, best]);
+    for (const node of wrap(best, children)) {
+      pushMerged(result, node);
+    }
+    i = bestEnd;
+  }
+
+  return result;
+}
+
+// Index just past the last consecutive run carrying the mark
+function markEnd(runs: InlineRun[], start: number, end: number, mark: InlineMark): number {
+  let i = start;
+  while (i < end && runs[i].marks.includes(mark)) {
+    i++;
+  }
+  return i;
+}
+
+function wrap(mark: InlineMark, children: PhrasingContent[]): PhrasingContent[] {
+  if (mark.type === 'link') {
+    const link: Link = { type: 'link', url: mark.url, title: mark.title, children };
+    return [link];
+  }
+
+  if (mark.type === 'linkReference') {
+    const { identifier, label, referenceType } = mark;
+    const reference: LinkReference = { type: 'linkReference', identifier, label, referenceType, children };
+    return [reference];
+  }
+
+  if (mark.type === 'html') {
+    return [{ type: 'html', value: `<${mark.tag}>` }, ...children, { type: 'html', value: `</${mark.tag}>` }];
+  }
+
+  // `** bold**` isn't bold in CommonMark, so whitespace at the edges of a
+  // span is moved outside it
+  const before = takeEdgeWhitespace(children, 'start');
+  const after = takeEdgeWhitespace(children, 'end');
+  const result: PhrasingContent[] = [];
+
+  if (before) result.push({ type: 'text', value: before });
+  if (children.length > 0) result.push({ type: mark.type, children } as PhrasingContent);
+  if (after) result.push({ type: 'text', value: after });
+
+  return result;
+}
+
+function takeEdgeWhitespace(children: PhrasingContent[], edge: 'start' | 'end'): string {
+  const index = edge === 'start' ? 0 : children.length - 1;
+  const child = children[index];
+  if (!child || child.type !== 'text') return '';
+
+  const match = edge === 'start' ? /^\s+/.exec(child.value) : /\s+$/.exec(child.value);
+  if (!match) return '';
+
+  child.value = edge === 'start' ? child.value.slice(match[0].length) : child.value.slice(0, -match[0].length);
+  if (child.value === '') {
+    children.splice(index, 1);
+  }
+  return match[0];
+}
+
+// Adjacent plain text is joined so runs split by Lexical don't leave seams
+function pushMerged(result: PhrasingContent[], node: PhrasingContent): void {
+  const last = result[result.length - 1];
+  if (last && last.type === 'text' && node.type === 'text') {
+    last.value += node.value;
+  } else {
+    result.push(node);
+  }
+}
@@ -1,2 +1,4 @@
 export { importMarkdownToLexical } from './mdastToLexical';
 export { exportLexicalToMdast } from './lexicalToMdast';
+export { exportLexicalToMarkdown } from './sourceMap';
+export type { SourceMap } from './sourceMap';
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { $getRoot, $isElementNode } from 'lexical';
+import { $isFootnoteRefNode } from '../editor/nodes';
+import { roundTrip } from './testing';
+
+describe('footnotes', () => {
+  it('drops definitions nothing refers to any more', () => {
+    const result = roundTrip('One[^1] two[^2].\n\n[^1]: First.\n\n[^2]: Second.\n', () => {
+      const paragraph = $getRoot().getFirstChild();
+      if ($isElementNode(paragraph)) {
+        paragraph.getChildren().find($isFootnoteRefNode)?.remove();
+      }
+    });
+    expect(result).toBe('One two[^1].\n\n[^1]: Second.\n');
+  });
+
+  it('keeps definitions referred to from raw HTML', () => {
+    const source = 'Text.\n\n<div>See[^b]</div>\n\n[^b]: Kept.\n';
+    expect(roundTrip(source)).toBe(source);
+  });
+});
+
+describe('link references', () => {
+  it('writes a reference whose definition was removed as its bracketed text', () => {
+    const result = roundTrip('See [the docs][docs].\n\n[docs]: https://example.com\n', () => {
+      $getRoot().getLastChild()?.remove();
+    });
+    expect(result).toBe('See \\[the docs].\n');
+  });
+});
@@ -2,9 +2,14 @@ import {
   $getRoot,
   $isTextNode,
   $isParagraphNode,
+  $isElementNode,
+  $isDecoratorNode,
+  $nodesOfType,
+  $isLineBreakNode,
   LexicalEditor,
   LexicalNode,
   TextNode,
+  TextFormatType,
   ElementNode,
 } from 'lexical';
 import { $isHeadingNode, $isQuoteNode } from '@lexical/rich-text';
@@ -12,6 +17,7 @@ import { $isListNode, $isListItemNode, ListNode, ListItemNode } from '@lexical/l
 import { $isCodeNode } from '@lexical/code';
 import { $isLinkNode } from '@lexical/link';
 import { $isTableNode, $isTableRowNode, $isTableCellNode, TableNode, TableRowNode, TableCellNode } from '@lexical/table';
+import { $dfs } from '@lexical/utils';
 import {
   $isHorizontalRuleNode,
   $isImageNode,
@@ -19,12 +25,53 @@ import {
   $isToggleContainerNode,
   $isToggleTitleNode,
   $isToggleContentNode,
+  $isRawMarkdownNode,
+  $isFrontmatterNode,
+  $isInlineMathNode,
+  $isBlockMathNode,
+  $isMermaidNode,
+  $isFootnoteRefNode,
+  $isFootnoteDefinitionNode,
+  $getFootnoteNumbers,
+  $isInlineImageNode,
+  $isInlineHtmlNode,
+  $isHtmlBlockNode,
+  $isCommentNode,
+  $isMarkdownTableNode,
+  $isLinkReferenceNode,
+  $isLinkDefinitionNode,
+  CALLOUT_EMOJI,
   ImageNode,
   CalloutNode,
   ToggleContainerNode,
   ToggleTitleNode,
   ToggleContentNode,
+  RawMarkdownNode,
+  FrontmatterNode,
+  InlineMathNode,
+  BlockMathNode,
+  MermaidNode,
+  FootnoteRefNode,
+  FootnoteDefinitionNode,
+  InlineImageNode,
+  LinkDefinitionNode,
+  $isMarkdownListNode,
+  $isMarkdownListItemNode,
+  $isMarkdownCodeNode,
 } from '../editor/nodes';
+import type { InlineMath, Math } from 'mdast-util-math';
+import type { StringifyOptions } from '../../markdown/stringify';
+import {
+  buildPhrasingContent,
+  InlineMark,
+  InlineRun,
+  STRONG,
+  EMPHASIS,
+  DELETE,
+  SUPERSCRIPT,
+  SUBSCRIPT,
+  HIGHLIGHT,
+} from './formatRuns';
 import type {
   Root,
   Content,
@@ -40,25 +87,46 @@ import type {
   TableRow,
   TableCell,
   Image,
-  Text,
-  Strong,
-  Emphasis,
-  InlineCode,
-  Link,
-  Delete,
   Html,
+  Yaml,
+  Toml,
+  FootnoteReference,
+  FootnoteDefinition,
+  Definition,
+  ImageReference,
 } from 'mdast';
 
+export interface ExportOptions extends StringifyOptions {
+  // Write footnote labels as they are instead of renumbering them
+  keepFootnoteLabels?: boolean;
+}
+
+// State of one export, passed down to every converter that needs it
+interface ExportContext {
+  options: ExportOptions;
+  // Footnote numbers of the document being exported, computed on first use
+  footnoteNumbers: Map<string, number> | null;
+  // Footnotes referred to from text kept as written, computed on first use
+  rawFootnoteReferences: Set<string> | null;
+  // Labels that still have a link definition, computed on first use
+  definedLinks: Set<string> | null;
+}
+
+function createExportContext(options: ExportOptions): ExportContext {
+  return { options, footnoteNumbers: null, rawFootnoteReferences: null, definedLinks: null };
+}
+
 // Convert Lexical editor state to mdast tree
-export function exportLexicalToMdast(editor: LexicalEditor): Root {
+export function exportLexicalToMdast(editor: LexicalEditor, options: ExportOptions = {}): Root {
   let root: Root = { type: 'root', children: [] };
+  const context = createExportContext(options);
 
   editor.getEditorState().read(() => {
     const lexicalRoot = $getRoot();
     const children: Content[] = [];
 
     for (const child of lexicalRoot.getChildren()) {
-      const nodes = convertLexicalNode(child);
+      const nodes = convertLexicalNode(child, context);
       children.push(...nodes);
     }
 
@@ -68,21 +136,26 @@ export function exportLexicalToMdast(editor: LexicalEditor): Root {
   return root;
 }
 
-function convertLexicalNode(node: LexicalNode): Content[] {
+// Convert a single top-level Lexical block (must be called inside a read or update)
+export function exportLexicalBlockToMdast(node: LexicalNode, options: ExportOptions = {}): Content[] {
+  return convertLexicalNode(node, createExportContext(options));
+}
+
+function convertLexicalNode(node: LexicalNode, context: ExportContext): Content[] {
   if ($isParagraphNode(node)) {
-    return [convertParagraphNode(node)];
+    return [convertParagraphNode(node, context)];
   }
 
   if ($isHeadingNode(node)) {
-    return [convertHeadingNode(node)];
+    return [convertHeadingNode(node, context)];
   }
 
   if ($isQuoteNode(node)) {
-    return [convertQuoteNode(node)];
+    return [convertQuoteNode(node, context)];
   }
 
   if ($isListNode(node)) {
-    return [convertListNode(node)];
+    return [convertListNode(node, context)];
   }
 
   if ($isCodeNode(node)) {
@@ -94,7 +167,7 @@ function convertLexicalNode(node: LexicalNode): Content[] {
   }
 
   if ($isTableNode(node)) {
-    return [convertTableNode(node)];
+    return [convertTableNode(node, context)];
   }
 
   if ($isImageNode(node)) {
@@ -102,11 +175,43 @@ function convertLexicalNode(node: LexicalNode): Content[] {
   }
 
   if ($isCalloutNode(node)) {
-    return [convertCalloutNode(node)];
+    return [convertCalloutNode(node, context)];
   }
 
   if ($isToggleContainerNode(node)) {
-    return convertToggleContainerNode(node);
+    return convertToggleContainerNode(node, context);
+  }
+
+  if ($isRawMarkdownNode(node)) {
+    return [convertRawMarkdownNode(node)];
+  }
+
+  if ($isHtmlBlockNode(node)) {
+    return [{ type: 'html', value: node.getHtml() }];
+  }
+
+  if ($isCommentNode(node)) {
+    return [{ type: 'html', value: node.getComment() }];
+  }
+
+  if ($isFrontmatterNode(node)) {
+    return [convertFrontmatterNode(node)];
+  }
+
+  if ($isBlockMathNode(node)) {
+    return [convertBlockMathNode(node)];
+  }
+
+  if ($isMermaidNode(node)) {
+    return [convertMermaidNode(node)];
+  }
+
+  if ($isFootnoteDefinitionNode(node)) {
+    return convertFootnoteDefinitionNode(node, context);
+  }
+
+  if ($isLinkDefinitionNode(node)) {
+    return [convertLinkDefinitionNode(node)];
   }
 
   // Fallback: create paragraph
@@ -117,18 +222,18 @@ function convertLexicalNode(node: LexicalNode): Content[] {
   return [paragraph];
 }
 
-function convertParagraphNode(node: ElementNode): Paragraph {
-  const children = convertInlineChildren(node);
+function convertParagraphNode(node: ElementNode, context: ExportContext): Paragraph {
+  const children = convertInlineChildren(node, context);
   return {
     type: 'paragraph',
     children: children.length > 0 ? children : [{ type: 'text', value: '' }],
   };
 }
 
-function convertHeadingNode(node: ElementNode): Heading {
+function convertHeadingNode(node: ElementNode, context: ExportContext): Heading {
   const tag = (node as unknown as { getTag: () => string }).getTag();
   const depth = parseInt(tag.charAt(1), 10) as 1 | 2 | 3 | 4 | 5 | 6;
-  const children = convertInlineChildren(node);
+  const children = convertInlineChildren(node, context);
 
   return {
     type: 'heading',
@@ -137,65 +242,87 @@ function convertHeadingNode(node: ElementNode): Heading {
   };
 }
 
-function convertQuoteNode(node: ElementNode): Blockquote {
-  const paragraph: Paragraph = {
-    type: 'paragraph',
-    children: convertInlineChildren(node),
-  };
+function convertQuoteNode(node: ElementNode, context: ExportContext): Blockquote {
+  const children = convertBlockChildren(node, context);
 
   return {
     type: 'blockquote',
-    children: [paragraph],
+    children: children.length > 0 ? (children as Blockquote['children']) : [{ type: 'paragraph', children: [] }],
   };
 }
 
-function convertListNode(node: ListNode): List {
+/**
+ * Convert the content of a quote or list item. Lexical keeps their text
+ * inline, so runs of inline children become paragraphs (two line breaks in a
+ * row start a new one) and block children such as code or nested quotes are
+ * converted as they are.
+ */
+function convertBlockChildren(node: ElementNode, context: ExportContext): Content[] {
+  const blocks: Content[] = [];
+  let runs: InlineRun[] = [];
+
+  const flushParagraph = () => {
+    if (runs.length > 0) {
+      blocks.push({ type: 'paragraph', children: buildPhrasingContent(runs) });
+      runs = [];
+    }
+  };
+
+  const children = node.getChildren();
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
+
+    if ($isLineBreakNode(child) && $isLineBreakNode(children[i + 1])) {
+      flushParagraph();
+      i++;
+    } else if (($isElementNode(child) || $isDecoratorNode(child)) && !child.isInline()) {
+      flushParagraph();
+      blocks.push(...convertLexicalNode(child, context));
+    } else {
+      collectInlineRuns(child, [], runs, context);
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+function convertListNode(node: ListNode, context: ExportContext): List {
   const listType = node.getListType();
   const ordered = listType === 'number';
   const children: ListItem[] = [];
 
   for (const child of node.getChildren()) {
     if ($isListItemNode(child)) {
-      children.push(convertListItemNode(child, ordered));
+      children.push(convertListItemNode(child, ordered, context));
     }
   }
 
+  const markdownList = $isMarkdownListNode(node) ? node : null;
+  const bullet = markdownList?.getBulletMarker();
   return {
     type: 'list',
     ordered,
-    spread: false,
+    start: ordered ? node.getStart() : null,
+    // Blank lines between items
+    spread: markdownList?.isSpread() ?? false,
     children,
+    ...(ordered && markdownList ? { data: { delimiter: markdownList.getDelimiter() } } : {}),
+    ...(!ordered && bullet ? { data: { bullet } } : {}),
   };
 }
 
-function convertListItemNode(node: ListItemNode, _ordered: boolean): ListItem {
-  const children: (Paragraph | List)[] = [];
-  const inlineChildren: PhrasingContent[] = [];
-
-  for (const child of node.getChildren()) {
-    if ($isListNode(child)) {
-      // Nested list
-      if (inlineChildren.length > 0) {
-        children.push({ type: 'paragraph', children: [...inlineChildren] });
-        inlineChildren.length = 0;
-      }
-      children.push(convertListNode(child));
-    } else if ($isTextNode(child)) {
-      inlineChildren.push(...convertTextNode(child));
-    } else if ($isLinkNode(child)) {
-      inlineChildren.push(convertLinkNode(child as unknown as ElementNode));
-    }
-  }
-
-  if (inlineChildren.length > 0) {
-    children.push({ type: 'paragraph', children: inlineChildren });
-  }
-
+function convertListItemNode(node: ListItemNode, _ordered: boolean, context: ExportContext): ListItem {
+  const children = convertBlockChildren(node, context) as ListItem['children'];
   const checked = node.getChecked?.();
 
   return {
     type: 'listItem',
-    spread: false,
+    // Blank lines between the item's blocks, as read; new items separate
+    // their paragraphs
+    spread:
+      ($isMarkdownListItemNode(node) ? node.isSpread() : null) ??
+      children.filter((child) => child.type === 'paragraph').length > 1,
     checked: checked !== undefined ? checked : null,
     children: children.length > 0 ? children : [{ type: 'paragraph', children: [{ type: 'text', value: '' }] }],
   };
@@ -206,10 +333,28 @@ function convertCodeNode(node: ElementNode): Code {
   const value = node.getTextContent();
   const lang = (node as unknown as { getLanguage?: () => string }).getLanguage?.() || undefined;
 
+  if (!$isMarkdownCodeNode(node)) {
+    return { type: 'code', lang, value };
+  }
+
+  const fence = node.getFence();
   return {
     type: 'code',
-    lang,
+    // The language as written, unless it has been changed since
+    lang: node.getInfoLanguage() ?? lang,
+    meta: node.getMeta(),
     value,
+    ...(fence ? { data: { fence } } : {}),
+  };
+}
+
+// Diagrams are stored as ordinary mermaid fences
+function convertMermaidNode(node: MermaidNode): Code {
+  return {
+    type: 'code',
+    lang: 'mermaid',
+    meta: node.getMeta(),
+    value: node.getCode(),
   };
 }
 
@@ -217,26 +362,21 @@ function convertHorizontalRuleNode(): ThematicBreak {
   return { type: 'thematicBreak' };
 }
 
-function convertTableNode(node: TableNode): Table {
+function convertTableNode(node: TableNode, context: ExportContext): Table {
   const rows: TableRow[] = [];
-  const align: ('left' | 'right' | 'center' | null)[] = [];
 
-  let isFirstRow = true;
   for (const child of node.getChildren()) {
     if ($isTableRowNode(child)) {
-      const row = convertTableRowNode(child);
-      rows.push(row);
-
-      // Get alignment from first row
-      if (isFirstRow) {
-        for (const cell of child.getChildren()) {
-          align.push(null); // Default alignment
-        }
-        isFirstRow = false;
-      }
+      rows.push(convertTableRowNode(child, context));
     }
   }
 
+  // One entry per column of the widest row, from the table's column alignments
+  const columns = Math.max(0, ...rows.map((row) => row.children.length));
+  const align = Array.from({ length: columns }, (_, column) =>
+    $isMarkdownTableNode(node) ? node.getColumnAlign(column) : null
+  );
+
   return {
     type: 'table',
     align,
@@ -244,12 +384,12 @@ function convertTableNode(node: TableNode): Table {
   };
 }
 
-function convertTableRowNode(node: TableRowNode): TableRow {
+function convertTableRowNode(node: TableRowNode, context: ExportContext): TableRow {
   const cells: TableCell[] = [];
 
   for (const child of node.getChildren()) {
     if ($isTableCellNode(child)) {
-      cells.push(convertTableCellNode(child));
+      cells.push(convertTableCellNode(child, context));
     }
   }
 
@@ -259,14 +399,18 @@ function convertTableRowNode(node: TableRowNode): TableRow {
   };
 }
 
-function convertTableCellNode(node: TableCellNode): TableCell {
+function convertTableCellNode(node: TableCellNode, context: ExportContext): TableCell {
   const children: PhrasingContent[] = [];
 
-  for (const child of node.getChildren()) {
-    if ($isParagraphNode(child)) {
-      children.push(...convertInlineChildren(child));
+  // Enter splits a cell into paragraphs; a GFM cell is one line, so they
+  // are joined with breaks, written as `<br>`
+  const paragraphs = node.getChildren().filter($isParagraphNode);
+  paragraphs.forEach((paragraph, index) => {
+    if (index > 0) {
+      children.push({ type: 'break' });
     }
-  }
+    children.push(...convertInlineChildren(paragraph, context));
+  });
 
   return {
     type: 'tableCell',
@@ -312,48 +456,60 @@ function convertImageNode(node: ImageNode): Paragraph | Html {
   };
 }
 
-function convertCalloutNode(node: CalloutNode): Blockquote {
-  const calloutType = node.getCalloutType().toUpperCase();
-  const children: Paragraph[] = [];
+function convertCalloutNode(node: CalloutNode, context: ExportContext): Blockquote {
+  // Only the types with an emoji, and only plain ones, can be written that way
+  const emoji = node.getTitle() === null && node.getFold() === null && CALLOUT_EMOJI[node.getCalloutType()];
+  if (context.options.calloutStyle === 'emoji' && emoji) {
+    return convertEmojiCalloutNode(node, context);
+  }
+
+  const title = node.getTitle();
+  const children = convertCalloutChildren(node, context);
+  // Written verbatim so the marker isn't escaped and the title keeps its markup
+  const marker: Html = {
+    type: 'html',
+    value: `[!${node.getMarker()}]${node.getFold() ?? ''}${title ? ` ${title}` : ''}`,
+  };
+
+  // The first paragraph gets the [!TYPE] prefix on a line of its own
+  const first = children[0];
+  if (first && first.type === 'paragraph') {
+    first.children = isEmptyParagraph(first) ? [marker] : [marker, { type: 'text', value: '\n' }, ...first.children];
+  } else {
+    children.unshift({ type: 'paragraph', children: [marker] });
+  }
 
-  // Iterate through callout's children (paragraphs)
-  let isFirst = true;
+  return {
+    type: 'blockquote',
+    children,
+  };
+}
+
+// Callouts hold block nodes directly; empty paragraphs keep their place
+function convertCalloutChildren(node: CalloutNode, context: ExportContext): Blockquote['children'] {
+  const children: Content[] = [];
   for (const child of node.getChildren()) {
-    if ($isParagraphNode(child)) {
-      const inlineChildren = convertInlineChildren(child);
-
-      if (isFirst) {
-        // First paragraph gets the [!TYPE] prefix
-        const prefix: Text = { type: 'text', value: `[!${calloutType}]` };
-        const contentChildren: PhrasingContent[] = [prefix];
-
-        if (inlineChildren.length > 0) {
-          // Add newline before content if there is content
-          contentChildren.push({ type: 'text', value: '\n' });
-          contentChildren.push(...inlineChildren);
-        }
-
-        children.push({
-          type: 'paragraph',
-          children: contentChildren,
-        });
-        isFirst = false;
-      } else {
-        // Subsequent paragraphs are added as-is
-        children.push({
-          type: 'paragraph',
-          children: inlineChildren.length > 0 ? inlineChildren : [{ type: 'text', value: '' }],
-        });
-      }
-    }
+    children.push(...convertLexicalNode(child, context));
   }
+  return children as Blockquote['children'];
+}
 
-  // Ensure at least one paragraph with the type marker
-  if (children.length === 0) {
-    children.push({
-      type: 'paragraph',
-      children: [{ type: 'text', value: `[!${calloutType}]` }],
-    });
+function isEmptyParagraph(paragraph: Paragraph): boolean {
+  return paragraph.children.every((child) => child.type === 'text' && child.value === '');
+}
+
+// Emoji style: `> 💡 First paragraph` with no type marker line
+function convertEmojiCalloutNode(node: CalloutNode, context: ExportContext): Blockquote {
+  const emoji = CALLOUT_EMOJI[node.getCalloutType()];
+  const children = convertCalloutChildren(node, context);
+
+  const first = children[0];
+  if (first && first.type === 'paragraph') {
+    first.children = isEmptyParagraph(first)
+      ? [{ type: 'text', value: emoji }]
+      : [{ type: 'text', value: `${emoji} ` }, ...first.children];
+  } else {
+    children.unshift({ type: 'paragraph', children: [{ type: 'text', value: emoji }] });
   }
 
   return {
@@ -362,7 +518,112 @@ function convertCalloutNode(node: CalloutNode): Blockquote {
   };
 }
 
-function convertToggleContainerNode(node: ToggleContainerNode): Content[] {
+// Raw markdown is emitted untouched; an html node is written out verbatim
+function convertRawMarkdownNode(node: RawMarkdownNode): Html {
+  return {
+    type: 'html',
+    value: node.getMarkdown(),
+  };
+}
+
+function convertFrontmatterNode(node: FrontmatterNode): Yaml | Toml {
+  return {
+    type: node.getFormat(),
+    value: node.getValue(),
+  };
+}
+
+function convertBlockMathNode(node: BlockMathNode): Math {
+  return {
+    type: 'math',
+    meta: node.getMeta(),
+    value: node.getEquation(),
+  };
+}
+
+function convertInlineMathNode(node: InlineMathNode): InlineMath {
+  return {
+    type: 'inlineMath',
+    value: node.getEquation(),
+  };
+}
+
+// Numbered footnotes are renumbered in reference order when written;
+// named ones like `[^note]` keep their label
+function getFootnoteLabel(identifier: string, label: string, context: ExportContext): string {
+  if (context.options.keepFootnoteLabels || !/^\d+$/.test(identifier)) {
+    return label;
+  }
+  return String(getFootnoteNumbers(context).get(identifier) ?? label);
+}
+
+function getFootnoteNumbers(context: ExportContext): Map<string, number> {
+  if (!context.footnoteNumbers) {
+    context.footnoteNumbers = $getFootnoteNumbers();
+  }
+  return context.footnoteNumbers;
+}
+
+// `[^label]` in raw markdown and HTML, which is written back as it is, so
+// the definitions it points at have to stay
+function getRawFootnoteReferences(context: ExportContext): Set<string> {
+  if (!context.rawFootnoteReferences) {
+    context.rawFootnoteReferences = new Set();
+    for (const { node } of $dfs($getRoot())) {
+      const text = $isRawMarkdownNode(node)
+        ? node.getMarkdown()
+        : $isHtmlBlockNode(node) || $isInlineHtmlNode(node)
+          ? node.getHtml()
+          : '';
+      for (const match of text.matchAll(/\[\^([^\]\s]+)\]/g)) {
+        context.rawFootnoteReferences.add(match[1].toLowerCase());
+      }
+    }
+  }
+  return context.rawFootnoteReferences;
+}
+
+function convertFootnoteRefNode(node: FootnoteRefNode, context: ExportContext): FootnoteReference {
+  const label = getFootnoteLabel(node.getIdentifier(), node.getLabel(), context);
+  return {
+    type: 'footnoteReference',
+    identifier: /^\d+$/.test(label) ? label : node.getIdentifier(),
+    label,
+  };
+}
+
+function convertFootnoteDefinitionNode(node: FootnoteDefinitionNode, context: ExportContext): FootnoteDefinition[] {
+  // Definitions nothing refers to any more are dropped
+  const identifier = node.getIdentifier();
+  if (
+    !context.options.keepFootnoteLabels &&
+    !getFootnoteNumbers(context).has(identifier) &&
+    !getRawFootnoteReferences(context).has(identifier)
+  ) {
+    return [];
+  }
+
+  const label = getFootnoteLabel(node.getIdentifier(), node.getLabel(), context);
+  const children: Content[] = [];
+  for (const child of node.getChildren()) {
+    children.push(...convertLexicalNode(child, context));
+  }
+
+  return [
+    {
+      type: 'footnoteDefinition',
+      identifier: /^\d+$/.test(label) ? label : node.getIdentifier(),
+      label,
+      children: children as FootnoteDefinition['children'],
+    },
+  ];
+}
+
+function convertToggleContainerNode(node: ToggleContainerNode, context: ExportContext): Content[] {
+  if (context.options.toggleSyntax === 'list') {
+    return [convertListToggleNode(node, context)];
+  }
+
   const result: Content[] = [];
   let summaryText = '';
   const contentNodes: Content[] = [];
@@ -375,7 +636,7 @@ function convertToggleContainerNode(node: ToggleContainerNode): Content[] {
     } else if ($isToggleContentNode(child)) {
       // Convert content children to mdast
       for (const contentChild of child.getChildren()) {
-        const converted = convertLexicalNode(contentChild);
+        const converted = convertLexicalNode(contentChild, context);
         contentNodes.push(...converted);
       }
     }
@@ -400,67 +661,170 @@ function convertToggleContainerNode(node: ToggleContainerNode): Content[] {
   return result;
 }
 
-function convertInlineChildren(node: ElementNode): PhrasingContent[] {
-  const children: PhrasingContent[] = [];
+// List syntax: the title is a bullet item and the body is nested under it.
+// There is nowhere to keep the open state, so it isn't written.
+function convertListToggleNode(node: ToggleContainerNode, context: ExportContext): List {
+  const title: PhrasingContent[] = [];
+  const contentNodes: Content[] = [];
 
   for (const child of node.getChildren()) {
-    if ($isTextNode(child)) {
-      children.push(...convertTextNode(child));
-    } else if ($isLinkNode(child)) {
-      children.push(convertLinkNode(child as unknown as ElementNode));
+    if ($isToggleTitleNode(child)) {
+      const titleParagraph = child.getFirstChild();
+      if ($isElementNode(titleParagraph)) {
+        title.push(...convertInlineChildren(titleParagraph, context));
+      }
+    } else if ($isToggleContentNode(child)) {
+      for (const contentChild of child.getChildren()) {
+        contentNodes.push(...convertLexicalNode(contentChild, context));
+      }
     }
   }
 
-  return children;
-}
-
-function convertTextNode(node: TextNode): PhrasingContent[] {
-  const text = node.getTextContent();
-  const format = node.getFormat();
-
-  if (text === '') {
-    return [];
+  // A body that is only an empty paragraph is left out rather than written as a blank line
+  const [onlyChild] = contentNodes;
+  if (
+    contentNodes.length === 1 &&
+    onlyChild.type === 'paragraph' &&
+    onlyChild.children.every((child) => child.type === 'text' && child.value === '')
+  ) {
+    contentNodes.length = 0;
   }
 
-  let result: PhrasingContent = { type: 'text', value: text };
+  return {
+    type: 'list',
+    ordered: false,
+    spread: false,
+    children: [
+      {
+        type: 'listItem',
+        spread: false,
+        children: [
+          { type: 'paragraph', children: title.length > 0 ? title : [{ type: 'text', value: '' }] },
+          ...(contentNodes as ListItem['children']),
+        ],
+      },
+    ],
+  };
+}
 
-  // Apply formatting
-  if (format & 1) {
-    // Bold
-    result = { type: 'strong', children: [result as Text] };
+function convertInlineChildren(node: ElementNode, context: ExportContext): PhrasingContent[] {
+  const runs: InlineRun[] = [];
+  for (const child of node.getChildren()) {
+    collectInlineRuns(child, [], runs, context);
   }
+  return buildPhrasingContent(runs);
+}
 
-  if (format & 2) {
-    // Italic
-    result = { type: 'emphasis', children: [result as Text] };
+// Flatten inline Lexical nodes into runs of content plus the marks on them
+function collectInlineRuns(node: LexicalNode, marks: InlineMark[], runs: InlineRun[], context: ExportContext): void {
+  if ($isTextNode(node)) {
+    const run = convertTextNode(node, marks);
+    if (run) runs.push(run);
+  } else if ($isLinkReferenceNode(node) && !isLinkDefined(node.getReference().identifier, context)) {
+    // Without its definition a reference is just its text in brackets, as
+    // CommonMark shows an undefined `[text]`
+    runs.push({ node: { type: 'text', value: '[' }, marks });
+    for (const child of node.getChildren()) {
+      collectInlineRuns(child, marks, runs, context);
+    }
+    runs.push({ node: { type: 'text', value: ']' }, marks });
+  } else if ($isLinkReferenceNode(node)) {
+    const { identifier, label, referenceType } = node.getReference();
+    const link: InlineMark = {
+      type: 'linkReference',
+      identifier,
+      label,
+      referenceType: referenceType === 'full' || matchesLabel(node.getTextContent(), identifier) ? referenceType : 'full',
+    };
+    for (const child of node.getChildren()) {
+      collectInlineRuns(child, [...marks, link], runs, context);
+    }
+  } else if ($isLinkNode(node)) {
+    const link: InlineMark = { type: 'link', url: node.getURL(), title: node.getTitle() ?? null };
+    const start = runs.length;
+    for (const child of node.getChildren()) {
+      collectInlineRuns(child, [...marks, link], runs, context);
+    }
+    // Keep links without text so they aren't lost
+    if (runs.length === start) {
+      runs.push({ node: { type: 'text', value: '' }, marks: [...marks, link] });
+    }
+  } else if ($isLineBreakNode(node)) {
+    runs.push({ node: { type: 'break' }, marks });
+  } else if ($isInlineMathNode(node)) {
+    runs.push({ node: convertInlineMathNode(node), marks });
+  } else if ($isFootnoteRefNode(node)) {
+    runs.push({ node: convertFootnoteRefNode(node, context), marks });
+  } else if ($isInlineHtmlNode(node)) {
+    runs.push({ node: { type: 'html', value: node.getHtml() }, marks });
+  } else if ($isInlineImageNode(node)) {
+    runs.push({ node: convertInlineImageNode(node, context), marks: [...marks, ...formatMarks(node)] });
   }
+}
 
-  if (format & 4) {
-    // Strikethrough
-    result = { type: 'delete', children: [result as Text] };
+function convertInlineImageNode(node: InlineImageNode, context: ExportContext): Image | ImageReference {
+  const reference = node.getReference();
+  if (!reference || !isLinkDefined(reference.identifier, context)) {
+    return { type: 'image', url: node.getSrc(), alt: node.getAlt(), title: node.getTitle() };
   }
 
-  if (format & 16) {
-    // Code
-    return [{ type: 'inlineCode', value: text }];
+  // `![label]` and `![label][]` only work while the alt text is the label
+  const { identifier, label, referenceType } = reference;
+  return {
+    type: 'imageReference',
+    identifier,
+    label,
+    referenceType: referenceType === 'full' || matchesLabel(node.getAlt(), identifier) ? referenceType : 'full',
+    alt: node.getAlt(),
+  };
+}
+
+function convertLinkDefinitionNode(node: LinkDefinitionNode): Definition {
+  return {
+    type: 'definition',
+    identifier: node.getIdentifier(),
+    label: node.getLabel(),
+    url: node.getUrl(),
+    title: node.getTitle(),
+  };
+}
+
+function isLinkDefined(identifier: string, context: ExportContext): boolean {
+  if (!context.definedLinks) {
+    context.definedLinks = new Set($nodesOfType(LinkDefinitionNode).map((definition) => definition.getIdentifier()));
   }
+  return context.definedLinks.has(identifier);
+}
 
-  return [result];
+// Labels match case-insensitively with whitespace collapsed, as in CommonMark
+function matchesLabel(text: string, identifier: string): boolean {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase() === identifier;
 }
 
-function convertLinkNode(node: ElementNode): Link {
-  const url = (node as unknown as { getURL: () => string }).getURL();
-  const children: PhrasingContent[] = [];
+function formatMarks(node: { hasFormat: (format: TextFormatType) => boolean }): InlineMark[] {
+  const marks: InlineMark[] = [];
+  if (node.hasFormat('bold')) marks.push(STRONG);
+  if (node.hasFormat('italic')) marks.push(EMPHASIS);
+  if (node.hasFormat('strikethrough')) marks.push(DELETE);
+  if (node.hasFormat('superscript')) marks.push(SUPERSCRIPT);
+  if (node.hasFormat('subscript')) marks.push(SUBSCRIPT);
+  if (node.hasFormat('highlight')) marks.push(HIGHLIGHT);
+  return marks;
+}
 
-  for (const child of node.getChildren()) {
-    if ($isTextNode(child)) {
-      children.push(...convertTextNode(child));
-    }
+function convertTextNode(node: TextNode, marks: InlineMark[]): InlineRun | null {
+  const text = node.getTextContent();
+
+  if (text === '') {
+    return null;
   }
 
-  return {
-    type: 'link',
-    url,
-    children: children.length > 0 ? children : [{ type: 'text', value: '' }],
-  };
+  const textMarks = [...marks, ...formatMarks(node)];
+
+  // Code keeps the formatting around it: `**`code`**`
+  if (node.hasFormat('code')) {
+    return { node: { type: 'inlineCode', value: text }, marks: textMarks };
+  }
+
+  return { node: { type: 'text', value: text }, marks: textMarks };
 }
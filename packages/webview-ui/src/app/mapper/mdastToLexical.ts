@@ -1,16 +1,21 @@
 import {
+  $createLineBreakNode,
   $createParagraphNode,
   $createTextNode,
   $getRoot,
+  $isTextNode,
+  $nodesOfType,
   LexicalEditor,
   ParagraphNode,
   TextNode,
+  TextFormatType,
   LexicalNode,
+  LineBreakNode,
 } from 'lexical';
 import { $createHeadingNode, $createQuoteNode, HeadingNode, QuoteNode } from '@lexical/rich-text';
-import { $createListNode, $createListItemNode, ListNode, ListItemNode } from '@lexical/list';
-import { $createCodeNode, CodeNode } from '@lexical/code';
-import { $createLinkNode, LinkNode } from '@lexical/link';
+import { ListNode, ListItemNode } from '@lexical/list';
+import { CodeNode } from '@lexical/code';
+import { $createLinkNode, $isLinkNode, LinkNode } from '@lexical/link';
 import {
   $createHorizontalRuleNode,
   $createImageNode,
@@ -18,15 +23,56 @@ import {
   $createToggleContainerNode,
   $createToggleTitleNode,
   $createToggleContentNode,
+  $createRawMarkdownNode,
+  $createFrontmatterNode,
+  $createInlineMathNode,
+  $createBlockMathNode,
+  $createMermaidNode,
+  $createFootnoteRefNode,
+  $createFootnoteDefinitionNode,
+  $createInlineImageNode,
+  $isInlineImageNode,
+  $createInlineHtmlNode,
+  $createHtmlBlockNode,
+  $createCommentNode,
+  isComment,
+  $createLinkReferenceNode,
+  $createLinkDefinitionNode,
   HorizontalRuleNode,
   ImageNode,
   CalloutNode,
   ToggleContainerNode,
+  RawMarkdownNode,
+  FrontmatterNode,
+  InlineMathNode,
+  BlockMathNode,
+  MermaidNode,
+  FootnoteRefNode,
+  FootnoteDefinitionNode,
+  InlineImageNode,
+  InlineHtmlNode,
+  HtmlBlockNode,
+  CommentNode,
+  LinkDefinitionNode,
+  MarkdownListNode,
+  $createMarkdownListNode,
+  $createMarkdownListItemNode,
+  $createMarkdownCodeNode,
+  $createMarkdownTableNode,
+  TableAlign,
+  $getContinuedStart,
+  ListDelimiter,
+  BulletMarker,
   CalloutType,
+  CalloutFold,
+  CALLOUT_EMOJI,
 } from '../editor/nodes';
-import { $createTableNode, $createTableRowNode, $createTableCellNode, TableNode, TableRowNode, TableCellNode, TableCellHeaderStates } from '@lexical/table';
-import type { Root, Content, PhrasingContent, List, ListItem, Table, TableRow, TableCell, Heading, Paragraph, Blockquote, Code, ThematicBreak, Image, Link, Text, Strong, Emphasis, InlineCode, Delete, Html } from 'mdast';
-import DOMPurify from 'dompurify';
+import { createSourceMap, captureBlockBaselines, SourceMap } from './sourceMap';
+import type { StringifyOptions } from '../../markdown/stringify';
+import { detectMarkdownStyle } from '../../markdown/detectStyle';
+import { $createTableRowNode, $createTableCellNode, TableNode, TableRowNode, TableCellNode, TableCellHeaderStates } from '@lexical/table';
+import type { Root, Content, PhrasingContent, List, ListItem, Table, TableRow, TableCell, Heading, Paragraph, Blockquote, Code, ThematicBreak, Image, Link, Text, Strong, Emphasis, InlineCode, Delete, Html, FootnoteDefinition, Definition, LinkReference, ImageReference } from 'mdast';
+import { isAllowedHtml, sanitizeHtml } from '../../markdown/sanitize';
 
 type LexicalBlockNode =
   | ParagraphNode
@@ -38,35 +84,108 @@ type LexicalBlockNode =
   | ImageNode
   | CalloutNode
   | ToggleContainerNode
-  | TableNode;
+  | TableNode
+  | RawMarkdownNode
+  | FrontmatterNode
+  | BlockMathNode
+  | MermaidNode
+  | HtmlBlockNode
+  | CommentNode
+  | FootnoteDefinitionNode
+  | LinkDefinitionNode;
+
+type LexicalInlineNode =
+  | TextNode
+  | LineBreakNode
+  | LinkNode
+  | InlineMathNode
+  | FootnoteRefNode
+  | InlineImageNode
+  | InlineHtmlNode;
+
+export interface ImportOptions extends StringifyOptions {
+  mermaidEnabled?: boolean;
+}
+
+// State of one import, passed down to every converter that needs it
+interface ImportContext {
+  // Source text of the document, used to preserve unknown syntax verbatim
+  source: string;
+  options: ImportOptions;
+  // Link definitions by identifier, used to resolve reference-style links
+  linkDefinitions: Map<string, Definition>;
+}
 
-// Convert mdast tree to Lexical editor state
+// Convert mdast tree to Lexical editor state. When the original source text is
+// given, returns a source map so unchanged blocks can be written back verbatim.
 export function importMarkdownToLexical(
   editor: LexicalEditor,
-  root: Root
-): void {
-  editor.update(() => {
-    const lexicalRoot = $getRoot();
-    lexicalRoot.clear();
-
-    // Pre-process: combine details blocks
-    const processedChildren = preprocessDetailsBlocks(root.children);
+  root: Root,
+  source?: string,
+  options: ImportOptions = {}
+): SourceMap | null {
+  const sourceMap = source !== undefined ? createSourceMap(source, detectMarkdownStyle(source, root)) : null;
+  const context: ImportContext = {
+    source: source ?? '',
+    options,
+    linkDefinitions: collectLinkDefinitions(root),
+  };
+
+  editor.update(
+    () => {
+      const lexicalRoot = $getRoot();
+      lexicalRoot.clear();
+
+      // Pre-process: combine details blocks and pick out list-style toggles
+      const processedChildren = preprocessListToggles(preprocessDetailsBlocks(root.children), context);
+
+      for (const child of processedChildren) {
+        // Check if this is a toggle marker
+        const nodes = (child as ToggleContentMarker).type === 'toggle-marker'
+          ? convertToggleMarker(child as ToggleContentMarker, context)
+          : convertBlockNode(child as Content, context);
 
-    for (const child of processedChildren) {
-      // Check if this is a toggle marker
-      if ((child as ToggleContentMarker).type === 'toggle-marker') {
-        const nodes = convertToggleMarker(child as ToggleContentMarker);
         for (const node of nodes) {
           lexicalRoot.append(node);
         }
-      } else {
-        const nodes = convertBlockNode(child as Content);
-        for (const node of nodes) {
-          lexicalRoot.append(node);
+
+        if (sourceMap) {
+          // Only blocks that map one-to-one onto a Lexical node can be tracked
+          const range = getSourceRange(child);
+          if (range && nodes.length === 1) {
+            sourceMap.blocks.set(nodes[0].getKey(), {
+              ...range,
+              index: sourceMap.blockCount,
+              markdown: null,
+            });
+          }
+          sourceMap.blockCount++;
         }
       }
-    }
-  });
+
+      markContinuedLists();
+    },
+    { discrete: true }
+  );
+
+  if (sourceMap) {
+    captureBlockBaselines(editor, sourceMap, options);
+  }
+
+  return sourceMap;
+}
+
+function getSourceRange(node: Content | ToggleContentMarker): { start: number; end: number } | null {
+  if (node.type === 'toggle-marker') {
+    return node.range;
+  }
+  return spanRange(node, node);
+}
+
+function spanRange(first: Content, last: Content): { start: number; end: number } | null {
+  const start = first.position?.start.offset;
+  const end = last.position?.end.offset;
+  return start !== undefined && end !== undefined ? { start, end } : null;
 }
 
 // Type for synthetic toggle node that carries mdast content
@@ -74,7 +193,11 @@ interface ToggleContentMarker {
   type: 'toggle-marker';
   isOpen: boolean;
   summary: string;
+  // Formatted title of a list-style toggle, used instead of `summary`
+  summaryNodes?: PhrasingContent[];
   contentNodes: Content[];
+  // Source offsets from the opening tag to the closing tag
+  range: { start: number; end: number } | null;
 }
 
 // Pre-process mdast children to combine details blocks and preserve content nodes
@@ -115,12 +238,16 @@ function preprocessDetailsBlocks(children: Content[]): (Content | ToggleContentM
           i++;
         }
 
+        // The block ends at the closing tag, or at the last node if it's missing
+        const lastNode = children[i] ?? contentNodes[contentNodes.length - 1] ?? node;
+
         // Create a marker that carries the actual mdast nodes
         result.push({
           type: 'toggle-marker',
           isOpen,
           summary,
           contentNodes,
+          range: spanRange(node, lastNode),
         } as ToggleContentMarker);
         i++; // Skip the closing tag
         continue;
@@ -147,6 +274,7 @@ function preprocessDetailsBlocks(children: Content[]): (Content | ToggleContentM
           isOpen,
           summary,
           contentNodes,
+          range: spanRange(node, node),
         } as ToggleContentMarker);
         i++;
         continue;
@@ -160,33 +288,138 @@ function preprocessDetailsBlocks(children: Content[]): (Content | ToggleContentM
   return result;
 }
 
-function convertBlockNode(node: Content): LexicalBlockNode[] {
+// With list-style toggles on, a bullet item with nested content is a toggle:
+// the item's text is the title and everything nested under it is the body.
+// Lists are split around such items; the remaining items stay plain lists.
+function preprocessListToggles(
+  children: (Content | ToggleContentMarker)[],
+  context: ImportContext
+): (Content | ToggleContentMarker)[] {
+  if (context.options.toggleSyntax !== 'list') {
+    return children;
+  }
+
+  const result: (Content | ToggleContentMarker)[] = [];
+
+  for (const node of children) {
+    if (node.type !== 'list' || node.ordered || !node.children.some(isListToggle)) {
+      result.push(node);
+      continue;
+    }
+
+    let run: ListItem[] = [];
+    const flushRun = () => {
+      if (run.length === 0) return;
+      const start = run[0].position?.start;
+      const end = run[run.length - 1].position?.end;
+      result.push({ ...node, children: run, position: start && end ? { start, end } : undefined });
+      run = [];
+    };
+
+    for (const item of node.children) {
+      if (!isListToggle(item)) {
+        run.push(item);
+        continue;
+      }
+
+      flushRun();
+      const [title, ...contentNodes] = item.children as [Paragraph, ...Content[]];
+      result.push({
+        type: 'toggle-marker',
+        // List syntax has no open state; show the body like outliners do
+        isOpen: true,
+        summary: '',
+        summaryNodes: title.children,
+        contentNodes,
+        range: spanRange(item, item),
+      });
+    }
+    flushRun();
+  }
+
+  return result;
+}
+
+function isListToggle(item: ListItem): boolean {
+  return (item.checked === null || item.checked === undefined) &&
+    item.children.length > 1 &&
+    item.children[0].type === 'paragraph';
+}
+
+function convertBlockNode(node: Content, context: ImportContext): LexicalBlockNode[] {
   switch (node.type) {
     case 'paragraph':
-      return [convertParagraph(node)];
+      return [convertParagraph(node, context)];
     case 'heading':
-      return [convertHeading(node)];
+      return [convertHeading(node, context)];
     case 'blockquote':
-      return convertBlockquote(node);
+      return convertBlockquote(node, context);
     case 'list':
-      return [convertList(node)];
+      return [convertList(node, context)];
     case 'code':
-      return [convertCode(node)];
+      return [convertCode(node, context)];
     case 'thematicBreak':
       return [convertThematicBreak()];
     case 'table':
-      return [convertTable(node)];
+      return [convertTable(node, context)];
     case 'html':
       return convertHtml(node);
+    case 'yaml':
+    case 'toml':
+      return [$createFrontmatterNode(node.type, node.value)];
+    case 'math':
+      return [$createBlockMathNode(node.value, node.meta ?? null)];
+    case 'footnoteDefinition':
+      return [convertFootnoteDefinition(node, context)];
+    case 'definition':
+      return [$createLinkDefinitionNode(node.identifier, node.label ?? node.identifier, node.url, node.title ?? null)];
     default:
-      // For unknown nodes, create a paragraph with their text content
-      const paragraph = $createParagraphNode();
-      paragraph.append($createTextNode(String(node)));
-      return [paragraph];
+      // Keep syntax we don't understand exactly as written
+      return [convertUnknownNode(node, context)];
   }
 }
 
-function convertParagraph(node: Paragraph): ParagraphNode | ImageNode {
+// Definitions can sit anywhere (even in quotes); the first one of a label wins
+function collectLinkDefinitions(root: Root): Map<string, Definition> {
+  const definitions = new Map<string, Definition>();
+
+  const visit = (node: Root | Content) => {
+    if (node.type === 'definition' && !definitions.has(node.identifier)) {
+      definitions.set(node.identifier, node);
+    }
+    if ('children' in node) {
+      for (const child of node.children) {
+        visit(child);
+      }
+    }
+  };
+
+  visit(root);
+  return definitions;
+}
+
+function convertFootnoteDefinition(node: FootnoteDefinition, context: ImportContext): FootnoteDefinitionNode {
+  const definition = $createFootnoteDefinitionNode(node.identifier, node.label ?? node.identifier);
+
+  for (const child of node.children) {
+    for (const n of convertBlockNode(child, context)) {
+      definition.append(n);
+    }
+  }
+
+  if (definition.getChildrenSize() === 0) {
+    definition.append($createParagraphNode());
+  }
+
+  return definition;
+}
+
+function convertUnknownNode(node: Content, context: ImportContext): RawMarkdownNode {
+  const range = getSourceRange(node);
+  return $createRawMarkdownNode(range ? context.source.slice(range.start, range.end) : '');
+}
+
+function convertParagraph(node: Paragraph, context: ImportContext): ParagraphNode | ImageNode {
   // Check if this is just an image - return ImageNode directly
   if (
     node.children.length === 1 &&
@@ -198,77 +431,145 @@ function convertParagraph(node: Paragraph): ParagraphNode | ImageNode {
 
   const paragraph = $createParagraphNode();
 
-  for (const child of node.children) {
-    const nodes = convertInlineNode(child);
-    for (const n of nodes) {
-      paragraph.append(n);
-    }
+  for (const n of convertInlineNodes(node.children, context)) {
+    paragraph.append(n);
   }
 
   return paragraph;
 }
 
-function convertHeading(node: Heading): HeadingNode {
+function convertHeading(node: Heading, context: ImportContext): HeadingNode {
   const tag = `h${node.depth}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
   const heading = $createHeadingNode(tag);
 
-  for (const child of node.children) {
-    const nodes = convertInlineNode(child);
-    for (const n of nodes) {
-      heading.append(n);
-    }
+  for (const n of convertInlineNodes(node.children, context)) {
+    heading.append(n);
   }
 
   return heading;
 }
 
-function convertBlockquote(node: Blockquote): LexicalBlockNode[] {
+// `[!type]` with an optional `+`/`-` fold, or a leading emoji when emoji-style
+// callouts are enabled
+interface CalloutMarker {
+  calloutType: CalloutType;
+  // Type as written, kept when it isn't all uppercase
+  marker: string | null;
+  fold: CalloutFold | null;
+  // Emoji callouts have no marker line; text after the emoji is content
+  emoji: boolean;
+  length: number;
+}
+
+function matchCalloutMarker(text: string, context: ImportContext): CalloutMarker | null {
+  const admonition = text.match(/^\[!([\w-]+)\]([+-])?/);
+  if (admonition) {
+    const [, written, fold] = admonition;
+    return {
+      calloutType: written.toLowerCase(),
+      marker: written === written.toUpperCase() ? null : written,
+      fold: (fold as CalloutFold | undefined) ?? null,
+      emoji: false,
+      length: admonition[0].length,
+    };
+  }
+
+  if (context.options.calloutStyle === 'emoji') {
+    for (const [calloutType, emoji] of Object.entries(CALLOUT_EMOJI)) {
+      // The variation selector is optional, so match on the base character
+      const base = emoji.replace(/\uFE0F/g, '');
+      const match = text.match(new RegExp(`^${base}\uFE0F?(?=\\s|$)`, 'u'));
+      if (match) {
+        return { calloutType, marker: null, fold: null, emoji: true, length: match[0].length };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split a callout's first paragraph after the marker line. What follows the
+ * marker on that line is the title, kept as the markdown it was written in;
+ * the rest of the paragraph is the callout's first paragraph.
+ */
+function splitCalloutTitle(
+  paragraph: Paragraph,
+  markerLength: number,
+  context: ImportContext
+): { title: string | null; rest: PhrasingContent[] } {
+  const children = paragraph.children;
+  let titleText = '';
+  let rest: PhrasingContent[] = [];
+
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
+    if (child.type === 'break') {
+      rest = children.slice(i + 1);
+      break;
+    }
+    if (child.type === 'text' && child.value.includes('\n')) {
+      const newline = child.value.indexOf('\n');
+      titleText += child.value.slice(0, newline);
+      const after = child.value.slice(newline + 1);
+      rest = children.slice(i + 1);
+      if (after) {
+        rest.unshift({ ...child, value: after });
+      }
+      break;
+    }
+    titleText += child.type === 'text' ? child.value : '';
+  }
+
+  // Prefer the source so inline markup in the title survives
+  const start = children[0].position?.start.offset;
+  const end = paragraph.position?.end.offset;
+  if (start !== undefined && end !== undefined) {
+    const lineEnd = context.source.indexOf('\n', start);
+    titleText = context.source.slice(start, lineEnd === -1 || lineEnd > end ? end : lineEnd);
+  }
+
+  const title = titleText.slice(markerLength).trim();
+  return { title: title || null, rest };
+}
+
+function convertBlockquote(node: Blockquote, context: ImportContext): LexicalBlockNode[] {
   // Check if this is a callout (admonition)
   if (node.children.length > 0) {
     const firstChild = node.children[0];
     if (firstChild.type === 'paragraph' && firstChild.children.length > 0) {
       const firstText = firstChild.children[0];
       if (firstText.type === 'text') {
-        const calloutMatch = firstText.value.match(/^\[!(NOTE|TIP|WARNING|IMPORTANT|CAUTION)\]/i);
+        const calloutMatch = matchCalloutMarker(firstText.value, context);
         if (calloutMatch) {
-          const calloutType = calloutMatch[1].toLowerCase() as CalloutType;
-          const restOfText = firstText.value.slice(calloutMatch[0].length).trim();
-
-          // Create callout node without initial content
-          const callout = $createCalloutNode(calloutType);
-
-          // Create a paragraph for the first line's remaining text and rest of first paragraph
-          const firstParagraph = $createParagraphNode();
-
-          if (restOfText) {
-            firstParagraph.append($createTextNode(restOfText));
+          const { calloutType, marker, fold } = calloutMatch;
+          let title: string | null = null;
+          let rest: PhrasingContent[];
+          if (calloutMatch.emoji) {
+            const restOfText = firstText.value.slice(calloutMatch.length).trimStart();
+            rest = firstChild.children.slice(1);
+            if (restOfText) {
+              rest.unshift({ type: 'text', value: restOfText });
+            }
+          } else {
+            ({ title, rest } = splitCalloutTitle(firstChild, calloutMatch.length, context));
           }
 
-          // Add remaining inline content from the first paragraph
-          for (let j = 1; j < firstChild.children.length; j++) {
-            const inlineNodes = convertInlineNode(firstChild.children[j]);
-            for (const n of inlineNodes) {
+          const callout = $createCalloutNode(calloutType, undefined, title, fold, marker);
+
+          // The rest of the first paragraph, if there is any
+          if (rest.some((n) => n.type !== 'text' || n.value.trim() !== '')) {
+            const firstParagraph = $createParagraphNode();
+            for (const n of convertInlineNodes(rest, context)) {
               firstParagraph.append(n);
             }
-          }
-
-          // Only add the paragraph if it has content
-          if (firstParagraph.getTextContent() || firstChild.children.length > 1) {
             callout.append(firstParagraph);
           }
 
-          // Convert remaining children (additional paragraphs, lists, etc.)
-          for (let i = 1; i < node.children.length; i++) {
-            const child = node.children[i];
-            if (child.type === 'paragraph') {
-              const p = $createParagraphNode();
-              for (const inlineChild of child.children) {
-                const nodes = convertInlineNode(inlineChild);
-                for (const n of nodes) {
-                  p.append(n);
-                }
-              }
-              callout.append(p);
+          // Convert remaining children (additional paragraphs, lists, code, etc.)
+          for (const child of node.children.slice(1)) {
+            for (const n of convertBlockNode(child, context)) {
+              callout.append(n);
             }
           }
 
@@ -285,19 +586,34 @@ function convertBlockquote(node: Blockquote): LexicalBlockNode[] {
 
   // Regular blockquote
   const quote = $createQuoteNode();
+  appendBlockChildren(quote, node.children, context);
 
-  for (const child of node.children) {
+  return [quote];
+}
+
+/**
+ * Fill a quote or list item. Their text stays inline the way Lexical expects,
+ * with two line breaks between paragraphs; other blocks (code, nested quotes,
+ * lists, tables) are added as children.
+ */
+function appendBlockChildren(
+  container: QuoteNode | ListItemNode,
+  children: Content[],
+  context: ImportContext
+): void {
+  let previous: Content | null = null;
+
+  for (const child of children) {
     if (child.type === 'paragraph') {
-      for (const inlineChild of child.children) {
-        const nodes = convertInlineNode(inlineChild);
-        for (const n of nodes) {
-          quote.append(n);
-        }
+      if (previous?.type === 'paragraph') {
+        container.append($createLineBreakNode(), $createLineBreakNode());
       }
+      container.append(...convertInlineNodes(child.children, context));
+    } else {
+      container.append(...convertBlockNode(child, context));
     }
+    previous = child;
   }
-
-  return [quote];
 }
 
 function extractTextFromParagraph(node: Paragraph): string {
@@ -316,58 +632,91 @@ function extractTextFromParagraph(node: Paragraph): string {
   return text;
 }
 
-function convertList(node: List): ListNode {
+function convertList(node: List, context: ImportContext): ListNode {
   const listType = node.ordered ? 'number' : 'bullet';
-  const list = $createListNode(listType);
+  const list = $createMarkdownListNode(
+    listType,
+    node.start ?? 1,
+    getListDelimiter(node, context),
+    node.spread ?? false,
+    // Set once the list is in place, see markContinuedLists
+    false,
+    getBulletMarker(node, context)
+  );
 
   for (const item of node.children) {
-    const listItem = convertListItem(item, node);
+    const listItem = convertListItem(item, node, context);
     list.append(listItem);
   }
 
   return list;
 }
 
-function convertListItem(node: ListItem, parentList: List): ListItemNode {
-  const listItem = $createListItemNode(
-    parentList.ordered === false && node.checked !== null ? node.checked : undefined
-  );
+// `1.` or `1)`, read from the first item's marker
+function getListDelimiter(node: List, context: ImportContext): ListDelimiter {
+  const offset = node.position?.start.offset;
+  if (!node.ordered || offset === undefined) return '.';
+  const match = /^\d+([.)])/.exec(context.source.slice(offset, offset + 12));
+  return match?.[1] === ')' ? ')' : '.';
+}
 
-  for (const child of node.children) {
-    if (child.type === 'paragraph') {
-      for (const inlineChild of child.children) {
-        const nodes = convertInlineNode(inlineChild);
-        for (const n of nodes) {
-          listItem.append(n);
-        }
-      }
-    } else if (child.type === 'list') {
-      // Nested list
-      const nestedList = convertList(child);
-      listItem.append(nestedList);
+// `-`, `*` or `+`, read from the first item's marker
+function getBulletMarker(node: List, context: ImportContext): BulletMarker | null {
+  const offset = node.position?.start.offset;
+  if (node.ordered || offset === undefined) return null;
+  const marker = context.source.charAt(offset);
+  return marker === '-' || marker === '*' || marker === '+' ? marker : null;
+}
+
+// A numbered list whose start follows on from the list one block earlier
+// keeps following it when either list is edited
+function markContinuedLists(): void {
+  for (const list of $nodesOfType(MarkdownListNode)) {
+    if ($getContinuedStart(list) === list.getStart()) {
+      list.setContinuesNumbering(true);
     }
   }
+}
+
+function convertListItem(node: ListItem, parentList: List, context: ImportContext): ListItemNode {
+  const listItem = $createMarkdownListItemNode(
+    parentList.ordered === false && node.checked !== null ? node.checked : undefined,
+    node.spread ?? false
+  );
+
+  appendBlockChildren(listItem, node.children, context);
 
   return listItem;
 }
 
-function convertCode(node: Code): CodeNode {
-  const code = $createCodeNode(node.lang || undefined);
+function convertCode(node: Code, context: ImportContext): CodeNode | MermaidNode {
+  if (context.options.mermaidEnabled && node.lang === 'mermaid') {
+    return $createMermaidNode(node.value, node.meta ?? null);
+  }
+
+  const code = $createMarkdownCodeNode(node.lang || undefined, node.lang ?? null, node.meta ?? null, getCodeFence(node, context));
   code.append($createTextNode(node.value));
   return code;
 }
 
+// The opening fence as written, or null for indented code
+function getCodeFence(node: Code, context: ImportContext): string | null {
+  const offset = node.position?.start.offset;
+  if (offset === undefined) return null;
+  return /^(`{3,}|~{3,})/.exec(context.source.slice(offset))?.[1] ?? null;
+}
+
 function convertThematicBreak(): HorizontalRuleNode {
   return $createHorizontalRuleNode();
 }
 
-function convertTable(node: Table): TableNode {
-  const table = $createTableNode();
+function convertTable(node: Table, context: ImportContext): TableNode {
+  const table = $createMarkdownTableNode(node.align ?? []);
 
   for (let i = 0; i < node.children.length; i++) {
     const row = node.children[i];
     const isHeader = i === 0;
-    const tableRow = convertTableRow(row, isHeader, node.align);
+    const tableRow = convertTableRow(row, isHeader, node.align, context);
     table.append(tableRow);
   }
 
@@ -377,14 +726,15 @@ function convertTable(node: Table): TableNode {
 function convertTableRow(
   node: TableRow,
   isHeader: boolean,
-  alignments: Table['align']
+  alignments: Table['align'],
+  context: ImportContext
 ): TableRowNode {
   const row = $createTableRowNode();
 
   for (let i = 0; i < node.children.length; i++) {
     const cell = node.children[i];
     const align = alignments?.[i] || null;
-    const tableCell = convertTableCell(cell, isHeader, align);
+    const tableCell = convertTableCell(cell, isHeader, align, context);
     row.append(tableCell);
   }
 
@@ -394,22 +744,33 @@ function convertTableRow(
 function convertTableCell(
   node: TableCell,
   isHeader: boolean,
-  _align: 'left' | 'right' | 'center' | null
+  align: TableAlign,
+  context: ImportContext
 ): TableCellNode {
   const cell = $createTableCellNode(isHeader ? TableCellHeaderStates.ROW : TableCellHeaderStates.NO_STATUS);
+  cell.setFormat(align ?? '');
 
   const paragraph = $createParagraphNode();
-  for (const child of node.children) {
-    const nodes = convertInlineNode(child);
-    for (const n of nodes) {
-      paragraph.append(n);
-    }
+  for (const n of convertInlineNodes(node.children.map(cellLineBreaks), context)) {
+    paragraph.append(n);
   }
   cell.append(paragraph);
 
   return cell;
 }
 
+// A cell can't hold a newline, so `<br>` is how GFM writes a line break in
+// one. Read it as a real break so Shift+Enter edits it like any other.
+function cellLineBreaks(node: PhrasingContent): PhrasingContent {
+  if (node.type === 'html' && /^<br\s*\/?>$/i.test(node.value.trim())) {
+    return { type: 'break' };
+  }
+  if ('children' in node) {
+    return { ...node, children: node.children.map(cellLineBreaks) } as PhrasingContent;
+  }
+  return node;
+}
+
 /**
  * SECURITY: Safely parse HTML content using DOMPurify
  * Only allows specific safe tags and attributes
@@ -420,26 +781,22 @@ function convertHtml(node: Html): LexicalBlockNode[] {
   // Toggle/details blocks are handled by preprocessDetailsBlocks
   // This function only handles remaining HTML
 
-  // SECURITY: Sanitize HTML using DOMPurify with strict allowlist
-  const sanitized = DOMPurify.sanitize(html, {
-    ALLOWED_TAGS: ['img', 'br', 'hr'],
-    ALLOWED_ATTR: ['src', 'alt', 'title', 'width', 'height'],
-    ALLOW_DATA_ATTR: false,
-    RETURN_DOM: false,
-    RETURN_DOM_FRAGMENT: false,
-  });
+  if (isComment(html)) {
+    return [$createCommentNode(html)];
+  }
 
-  // If sanitization removed everything, treat as unknown HTML
-  if (!sanitized.trim()) {
-    // For unknown/unsafe HTML, create a code block to preserve it visually
-    const code = $createCodeNode('html');
-    code.append($createTextNode(html));
-    return [code];
+  // A lone <img> or <hr> that passes the strict allowlist becomes an image
+  // or divider; any other HTML is kept as written in an HTML block
+  if (!isAllowedHtml(html)) {
+    return [$createHtmlBlockNode(node.value)];
   }
 
   // Parse sanitized HTML with proper DOM parser
   const parser = new DOMParser();
-  const doc = parser.parseFromString(sanitized, 'text/html');
+  const doc = parser.parseFromString(sanitizeHtml(html), 'text/html');
+  if (doc.body.children.length !== 1 || doc.body.textContent?.trim()) {
+    return [$createHtmlBlockNode(node.value)];
+  }
 
   // Check for img element
   const imgElement = doc.querySelector('img');
@@ -478,20 +835,19 @@ function convertHtml(node: Html): LexicalBlockNode[] {
     return [$createHorizontalRuleNode()];
   }
 
-  // For other HTML, create a code block to preserve it
-  const code = $createCodeNode('html');
-  code.append($createTextNode(html));
-  return [code];
+  return [$createHtmlBlockNode(node.value)];
 }
 
 // Convert a toggle marker (from preprocessDetailsBlocks) to Lexical nodes
-function convertToggleMarker(marker: ToggleContentMarker): ToggleContainerNode[] {
+function convertToggleMarker(marker: ToggleContentMarker, context: ImportContext): ToggleContainerNode[] {
   const container = $createToggleContainerNode(marker.isOpen);
 
   // Create title node with the summary text
   const title = $createToggleTitleNode();
   const titleParagraph = $createParagraphNode();
-  if (marker.summary) {
+  if (marker.summaryNodes) {
+    titleParagraph.append(...convertInlineNodes(marker.summaryNodes, context));
+  } else if (marker.summary) {
     titleParagraph.append($createTextNode(marker.summary));
   }
   title.append(titleParagraph);
@@ -504,9 +860,11 @@ function convertToggleMarker(marker: ToggleContentMarker): ToggleContainerNode[]
     // Add an empty paragraph if no content
     content.append($createParagraphNode());
   } else {
-    // Convert each content node to Lexical nodes
-    for (const contentNode of marker.contentNodes) {
-      const lexicalNodes = convertBlockNode(contentNode);
+    // Convert each content node to Lexical nodes; list-style toggles can nest
+    for (const contentNode of preprocessListToggles(marker.contentNodes, context)) {
+      const lexicalNodes = contentNode.type === 'toggle-marker'
+        ? convertToggleMarker(contentNode, context)
+        : convertBlockNode(contentNode, context);
       for (const node of lexicalNodes) {
         content.append(node);
       }
@@ -517,23 +875,101 @@ function convertToggleMarker(marker: ToggleContentMarker): ToggleContainerNode[]
   return [container];
 }
 
-function convertInlineNode(node: PhrasingContent): (TextNode | LinkNode)[] {
+// Inline HTML tags that map onto Lexical text formats
+const HTML_TEXT_FORMATS: Record<string, TextFormatType> = {
+  sup: 'superscript',
+  sub: 'subscript',
+  mark: 'highlight',
+};
+
+// Convert a run of inline content. Inline HTML arrives as separate opening and
+// closing tags around the content, so matching pairs are handled here: format
+// tags become text formats, and other elements holding plain text (`<kbd>`)
+// are kept whole as one node.
+function convertInlineNodes(children: PhrasingContent[], context: ImportContext): LexicalInlineNode[] {
+  const nodes: LexicalInlineNode[] = [];
+
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
+    const tag = child.type === 'html' ? /^<([a-z][a-z0-9]*)>$/i.exec(child.value)?.[1].toLowerCase() : undefined;
+    const close = tag ? findClosingTag(children, i + 1, tag) : -1;
+
+    if (tag && close !== -1) {
+      const inner = children.slice(i + 1, close);
+      const format = HTML_TEXT_FORMATS[tag];
+
+      if (format) {
+        nodes.push(...convertFormatted(inner, format, context));
+        i = close;
+        continue;
+      }
+
+      if (inner.every((n) => n.type === 'text')) {
+        const range = spanRange(child, children[close]);
+        const html = range
+          ? context.source.slice(range.start, range.end)
+          : [child, ...inner, children[close]].map((n) => (n as Text | Html).value).join('');
+        nodes.push($createInlineHtmlNode(html));
+        i = close;
+        continue;
+      }
+    }
+
+    nodes.push(...convertInlineNode(child, context));
+  }
+
+  return nodes;
+}
+
+// Index of the `</tag>` closing the element opened just before `start`
+function findClosingTag(children: PhrasingContent[], start: number, tag: string): number {
+  let depth = 0;
+  for (let i = start; i < children.length; i++) {
+    const child = children[i];
+    if (child.type !== 'html') continue;
+
+    const match = /^<(\/?)([a-z][a-z0-9]*)\b[^>]*>$/i.exec(child.value);
+    if (!match || match[2].toLowerCase() !== tag) continue;
+
+    if (!match[1]) {
+      depth++;
+    } else if (depth === 0) {
+      return i;
+    } else {
+      depth--;
+    }
+  }
+  return -1;
+}
+
+function convertInlineNode(node: PhrasingContent, context: ImportContext): LexicalInlineNode[] {
   switch (node.type) {
     case 'text':
       return [convertText(node)];
     case 'strong':
-      return convertStrong(node);
+      return convertStrong(node, context);
     case 'emphasis':
-      return convertEmphasis(node);
+      return convertEmphasis(node, context);
     case 'inlineCode':
       return [convertInlineCode(node)];
+    case 'break':
+      return [$createLineBreakNode()];
     case 'link':
-      return [convertLink(node)];
+      return [convertLink(node, context)];
+    case 'linkReference':
+      return [convertLinkReference(node, context)];
     case 'delete':
-      return convertDelete(node);
+      return convertDelete(node, context);
+    case 'inlineMath':
+      return [$createInlineMathNode(node.value)];
+    case 'footnoteReference':
+      return [$createFootnoteRefNode(node.identifier, node.label ?? node.identifier)];
+    case 'html':
+      return [$createInlineHtmlNode(node.value)];
     case 'image':
-      // Images in inline context become text placeholder
-      return [$createTextNode(`![${node.alt || ''}](${node.url})`)];
+      return [$createInlineImageNode(node.url, node.alt || '', node.title ?? null)];
+    case 'imageReference':
+      return [convertImageReference(node, context)];
     default:
       return [$createTextNode('')];
   }
@@ -543,32 +979,38 @@ function convertText(node: Text): TextNode {
   return $createTextNode(node.value);
 }
 
-function convertStrong(node: Strong): TextNode[] {
-  const nodes: TextNode[] = [];
-  for (const child of node.children) {
-    const converted = convertInlineNode(child);
-    for (const n of converted) {
-      if (n instanceof TextNode) {
-        n.setFormat('bold');
-        nodes.push(n);
-      }
-    }
+function convertStrong(node: Strong, context: ImportContext): LexicalInlineNode[] {
+  return convertFormatted(node.children, 'bold', context);
+}
+
+function convertEmphasis(node: Emphasis, context: ImportContext): LexicalInlineNode[] {
+  return convertFormatted(node.children, 'italic', context);
+}
+
+// Add a format on top of whatever the children already have, so nested
+// formatting (`**bold _and italic_**`) and links inside it survive
+function convertFormatted(
+  children: PhrasingContent[],
+  format: TextFormatType,
+  context: ImportContext
+): LexicalInlineNode[] {
+  const nodes = convertInlineNodes(children, context);
+  for (const n of nodes) {
+    applyFormat(n, format);
   }
   return nodes;
 }
 
-function convertEmphasis(node: Emphasis): TextNode[] {
-  const nodes: TextNode[] = [];
-  for (const child of node.children) {
-    const converted = convertInlineNode(child);
-    for (const n of converted) {
-      if (n instanceof TextNode) {
-        n.setFormat('italic');
-        nodes.push(n);
-      }
+function applyFormat(node: LexicalNode, format: TextFormatType): void {
+  if ($isTextNode(node) || $isInlineImageNode(node)) {
+    if (!node.hasFormat(format)) {
+      node.toggleFormat(format);
+    }
+  } else if ($isLinkNode(node)) {
+    for (const child of node.getChildren()) {
+      applyFormat(child, format);
     }
   }
-  return nodes;
 }
 
 function convertInlineCode(node: InlineCode): TextNode {
@@ -577,29 +1019,43 @@ function convertInlineCode(node: InlineCode): TextNode {
   return textNode;
 }
 
-function convertLink(node: Link): LinkNode {
-  const link = $createLinkNode(node.url);
+function convertLink(node: Link, context: ImportContext): LinkNode {
+  const link = $createLinkNode(node.url, { title: node.title });
 
-  for (const child of node.children) {
-    const nodes = convertInlineNode(child);
-    for (const n of nodes) {
-      link.append(n);
-    }
+  for (const n of convertInlineNodes(node.children, context)) {
+    link.append(n);
   }
 
   return link;
 }
 
-function convertDelete(node: Delete): TextNode[] {
-  const nodes: TextNode[] = [];
-  for (const child of node.children) {
-    const converted = convertInlineNode(child);
-    for (const n of converted) {
-      if (n instanceof TextNode) {
-        n.setFormat('strikethrough');
-        nodes.push(n);
-      }
-    }
+// The definition's URL is shown and followed; the reference is what's saved
+function convertLinkReference(node: LinkReference, context: ImportContext): LinkNode {
+  const definition = context.linkDefinitions.get(node.identifier);
+  const link = $createLinkReferenceNode(
+    definition?.url ?? '',
+    { identifier: node.identifier, label: node.label ?? node.identifier, referenceType: node.referenceType },
+    { title: definition?.title ?? null }
+  );
+
+  for (const n of convertInlineNodes(node.children, context)) {
+    link.append(n);
   }
-  return nodes;
+
+  return link;
+}
+
+function convertImageReference(node: ImageReference, context: ImportContext): InlineImageNode {
+  const definition = context.linkDefinitions.get(node.identifier);
+  const image = $createInlineImageNode(definition?.url ?? '', node.alt || '', definition?.title ?? null);
+  image.setReference({
+    identifier: node.identifier,
+    label: node.label ?? node.identifier,
+    referenceType: node.referenceType,
+  });
+  return image;
+}
+
+function convertDelete(node: Delete, context: ImportContext): LexicalInlineNode[] {
+  return convertFormatted(node.children, 'strikethrough', context);
 }
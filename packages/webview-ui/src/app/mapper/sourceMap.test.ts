@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { $createParagraphNode, $createTextNode, $getRoot, $isElementNode } from 'lexical';
+import { $createMarkdownListItemNode, $createMarkdownListNode } from '../editor/nodes';
+import { captureBlockBaselines, createSourceMap, exportLexicalToMarkdown } from './sourceMap';
+import { importMarkdownToLexical } from './mdastToLexical';
+import { createTestEditor, roundTrip } from './testing';
+import { parseMarkdown } from '../../markdown/parse';
+
+const DOCUMENT = [
+  '',
+  'Setext heading',
+  '==============',
+  '',
+  '* item   with  spaces',
+  '* second',
+  '',
+  '',
+  '1) first',
+  '1) second',
+  '',
+  '~~~py',
+  'print("hi")',
+  '~~~',
+  '',
+  '| a | b |',
+  '|---|:-:|',
+  '| 1 |  2 |',
+  '',
+  '> [!NOTE]',
+  '> A callout',
+  '',
+  'Text with __strong__, a [ref][1] and a footnote[^n].',
+  '',
+  '[1]: https://example.com',
+  '[^n]: The note.',
+  '',
+  '<div align="center">html</div>',
+  '',
+  '',
+].join('\n');
+
+describe('exportLexicalToMarkdown', () => {
+  it('writes an untouched document back byte for byte', () => {
+    expect(roundTrip(DOCUMENT)).toBe(DOCUMENT);
+  });
+
+  it('rewrites only the edited block', () => {
+    // Edited headings are written in ATX style
+    const result = roundTrip(DOCUMENT, () => {
+      const heading = $getRoot().getFirstChild();
+      if ($isElementNode(heading)) {
+        heading.append($createTextNode('!'));
+      }
+    });
+    expect(result).toBe(DOCUMENT.replace('Setext heading\n==============', '# Setext heading!'));
+  });
+
+  it('keeps the surrounding source when a block is added', () => {
+    const source = 'First   paragraph.\n\n\n* a\n* b\n';
+    const result = roundTrip(source, () => {
+      $getRoot().append($createParagraphNode().append($createTextNode('Added')));
+    });
+    expect(result).toBe('First   paragraph.\n\n\n* a\n* b\n\nAdded\n');
+  });
+
+  it('keeps the gap between blocks that are still neighbours when one is removed', () => {
+    const source = 'one\n\n\ntwo\n\nthree\n';
+    const result = roundTrip(source, () => {
+      $getRoot().getLastChild()?.remove();
+    });
+    expect(result).toBe('one\n\n\ntwo\n');
+  });
+
+  it.each(['3. three\n4. four\n\n1) a\n2) b\n', '- a\n- b\n\n* c\n* d\n', '1. a\n\n1) b\n', '- a\n\n+ b'])(
+    'keeps every list of adjacent lists: %j',
+    (source) => {
+      expect(roundTrip(source)).toBe(source);
+    }
+  );
+
+  it('writes out a block that took in the next block during import', () => {
+    const source = '- a\n\n- b\n';
+    const editor = createTestEditor();
+    const sourceMap = createSourceMap(source);
+
+    // Two lists of the same kind side by side, merged by the list transform
+    editor.update(
+      () => {
+        const lists = ['a', 'b'].map((text) =>
+          $createMarkdownListNode('bullet').append($createMarkdownListItemNode().append($createTextNode(text)))
+        );
+        $getRoot().append(...lists);
+        lists.forEach((list, index) => {
+          const start = index * 5;
+          sourceMap.blocks.set(list.getKey(), { start, end: start + 3, index, markdown: null });
+        });
+        sourceMap.blockCount = 2;
+      },
+      { discrete: true }
+    );
+    captureBlockBaselines(editor, sourceMap);
+
+    expect(exportLexicalToMarkdown(editor, sourceMap)).toBe('- a\n- b\n');
+  });
+
+  it('keeps edits when baselines are taken again with new options', () => {
+    const source = '*a*\n\n*b*\n';
+    const editor = createTestEditor();
+    const sourceMap = importMarkdownToLexical(editor, parseMarkdown(source).root, source);
+    editor.update(
+      () => {
+        const paragraph = $getRoot().getFirstChild();
+        if ($isElementNode(paragraph)) {
+          paragraph.append($createTextNode('!'));
+        }
+      },
+      { discrete: true }
+    );
+
+    const options = { emphasisStyle: '_' } as const;
+    if (sourceMap) {
+      captureBlockBaselines(editor, sourceMap, options);
+    }
+    expect(exportLexicalToMarkdown(editor, sourceMap, options)).toBe('_a_!\n\n*b*\n');
+  });
+});
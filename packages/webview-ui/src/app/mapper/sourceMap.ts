@@ -0,0 +1,165 @@
+import { $getNodeByKey, $getRoot, EditorState, LexicalEditor, NodeKey } from 'lexical';
+import type { Root, Content } from 'mdast';
+import { exportLexicalBlockToMdast, exportLexicalToMdast } from './lexicalToMdast';
+import { stringifyMarkdown, StringifyOptions } from '../../markdown/stringify';
+
+// Where a top-level Lexical block came from in the original markdown source
+export interface BlockSource {
+  start: number;
+  end: number;
+  // Position of the block among the imported top-level blocks
+  index: number;
+  // How the block serialized right after import, used to detect edits; null
+  // until the baseline is captured
+  markdown: string | null;
+}
+
+export interface SourceMap {
+  source: string;
+  blocks: Map<NodeKey, BlockSource>;
+  blockCount: number;
+  // Markdown style detected in the source, used for options left unset
+  style: StringifyOptions;
+  // Editor state right after import, which baselines are taken from
+  importedState: EditorState | null;
+}
+
+export function createSourceMap(source: string, style: StringifyOptions = {}): SourceMap {
+  return { source, blocks: new Map(), blockCount: 0, style, importedState: null };
+}
+
+// Explicit options win; anything unset falls back to the document's own style
+function resolveOptions(sourceMap: SourceMap, options: StringifyOptions): StringifyOptions {
+  const resolved: StringifyOptions = { ...sourceMap.style };
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) {
+      Object.assign(resolved, { [key]: value });
+    }
+  }
+  return resolved;
+}
+
+// Serialize a single top-level block without the trailing newline
+function stringifyBlock(nodes: Content[], options: StringifyOptions): string {
+  const root: Root = { type: 'root', children: nodes };
+  return stringifyMarkdown(root, options).replace(/\n+$/, '');
+}
+
+/**
+ * Record the baseline serialization of every imported block.
+ * Must run after the import update has been committed so that node
+ * transforms (code highlighting, list merging) are already applied. Run it
+ * again when the options change: baselines always come from the state as
+ * imported, so blocks edited since are still seen as edited. A block
+ * that took in the content of a block after it during import no longer
+ * matches its source range, so it is no longer tracked and is written out
+ * in full.
+ */
+export function captureBlockBaselines(
+  editor: LexicalEditor,
+  sourceMap: SourceMap,
+  options: StringifyOptions = {}
+): void {
+  // Footnotes as written, so blocks whose footnotes get renumbered count as edited
+  const resolved = { ...resolveOptions(sourceMap, options), keepFootnoteLabels: true };
+  if (!sourceMap.importedState) {
+    sourceMap.importedState = editor.getEditorState();
+  }
+
+  sourceMap.importedState.read(() => {
+    // Blocks that went away before their first baseline were merged into a
+    // block before them
+    const merged: number[] = [];
+    for (const [key, block] of sourceMap.blocks) {
+      if (!$getNodeByKey(key)) {
+        if (block.markdown === null) merged.push(block.index);
+        sourceMap.blocks.delete(key);
+      }
+    }
+
+    const absorbing = merged.map((index) => findBlockBefore(sourceMap, index));
+    for (const key of absorbing) {
+      if (key) sourceMap.blocks.delete(key);
+    }
+
+    for (const [key, block] of sourceMap.blocks) {
+      const node = $getNodeByKey(key);
+      if (node) {
+        block.markdown = stringifyBlock(exportLexicalBlockToMdast(node, resolved), resolved);
+      }
+    }
+  });
+}
+
+// Key of the tracked block closest before the given block index
+function findBlockBefore(sourceMap: SourceMap, index: number): NodeKey | null {
+  let found: NodeKey | null = null;
+  let foundIndex = -1;
+  for (const [key, block] of sourceMap.blocks) {
+    if (block.index < index && block.index > foundIndex) {
+      found = key;
+      foundIndex = block.index;
+    }
+  }
+  return found;
+}
+
+/**
+ * Convert the editor state to markdown, re-serializing only the blocks that
+ * changed since import. Untouched blocks, and the whitespace between blocks
+ * that are still adjacent, are copied byte-for-byte from the original source.
+ */
+export function exportLexicalToMarkdown(
+  editor: LexicalEditor,
+  sourceMap: SourceMap | null,
+  options: StringifyOptions = {}
+): string {
+  if (!sourceMap) {
+    return stringifyMarkdown(exportLexicalToMdast(editor, options), options);
+  }
+
+  const { source, blocks, blockCount } = sourceMap;
+  const resolved = resolveOptions(sourceMap, options);
+  let result = '';
+
+  editor.getEditorState().read(() => {
+    let previous: BlockSource | undefined;
+    let isFirst = true;
+
+    for (const child of $getRoot().getChildren()) {
+      const nodes = exportLexicalBlockToMdast(child, resolved);
+      // Blocks that write nothing (e.g. unused footnotes) leave no gap either
+      if (nodes.length === 0) continue;
+
+      const markdown = stringifyBlock(nodes, resolved);
+      const block = blocks.get(child.getKey());
+      const text = block && block.markdown === markdown
+        ? source.slice(block.start, block.end)
+        : markdown;
+
+      if (isFirst) {
+        // Keep leading content (e.g. blank lines) if the first block is still first
+        if (block && block.index === 0) {
+          result += source.slice(0, block.start);
+        }
+      } else if (previous && block && block.index === previous.index + 1) {
+        result += source.slice(previous.end, block.start);
+      } else {
+        result += '\n\n';
+      }
+
+      result += text;
+      previous = block;
+      isFirst = false;
+    }
+
+    // Keep the original trailing whitespace if the last block is still last
+    if (previous && previous.index === blockCount - 1) {
+      result += source.slice(previous.end);
+    } else {
+      result += '\n';
+    }
+  });
+
+  return result;
+}
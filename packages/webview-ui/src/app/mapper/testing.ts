@@ -0,0 +1,29 @@
+import { createEditor, LexicalEditor } from 'lexical';
+import { editorNodes } from '../editor/editorNodes';
+import { importMarkdownToLexical, ImportOptions } from './mdastToLexical';
+import { exportLexicalToMarkdown } from './sourceMap';
+import { parseMarkdown } from '../../markdown/parse';
+
+// Headless editor with the same nodes as the real one, for the mapper tests
+export function createTestEditor(): LexicalEditor {
+  return createEditor({
+    nodes: editorNodes,
+    onError: (error) => {
+      throw error;
+    },
+  });
+}
+
+/**
+ * Import markdown the way the editor does, apply `edit` (if any) in an
+ * update, and export it again through the source map.
+ */
+export function roundTrip(source: string, edit?: () => void, options: ImportOptions = {}): string {
+  const editor = createTestEditor();
+  const { root } = parseMarkdown(source, options);
+  const sourceMap = importMarkdownToLexical(editor, root, source, options);
+  if (edit) {
+    editor.update(edit, { discrete: true });
+  }
+  return exportLexicalToMarkdown(editor, sourceMap, options);
+}
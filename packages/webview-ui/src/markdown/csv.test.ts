@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseDelimited, toCsv } from './csv';
+
+describe('parseDelimited', () => {
+  it('reads a spreadsheet range as tab-separated rows', () => {
+    expect(parseDelimited('Name\tAge\nAda\t36\n')).toEqual({
+      delimiter: '\t',
+      rows: [
+        ['Name', 'Age'],
+        ['Ada', '36'],
+      ],
+    });
+  });
+
+  it('reads quoted fields with delimiters, quotes and newlines', () => {
+    expect(parseDelimited('a,b\r\n"x, y","say ""hi""\nthere"\r\n')?.rows).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('rejects text that does not read as a grid', () => {
+    expect(parseDelimited('')).toBeNull();
+    expect(parseDelimited('no delimiters here')).toBeNull();
+    expect(parseDelimited('a,b\nc')).toBeNull();
+    expect(parseDelimited('"never closed,b\nc,d')).toBeNull();
+  });
+
+  it('pads short rows when the delimiter is given', () => {
+    expect(parseDelimited('a,b,c\nd\n', ',')?.rows).toEqual([
+      ['a', 'b', 'c'],
+      ['d', '', ''],
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the fields that need it', () => {
+    expect(toCsv([['plain', 'with, comma'], ['say "hi"', 'two\nlines']])).toBe(
+      'plain,"with, comma"\n"say ""hi""","two\nlines"\n'
+    );
+  });
+
+  it('reads back what it writes', () => {
+    const rows = [
+      ['a', 'b, c'],
+      ['"d"', 'e\nf'],
+    ];
+    expect(parseDelimited(toCsv(rows))?.rows).toEqual(rows);
+  });
+});
@@ -0,0 +1,105 @@
+export type Delimiter = ',' | '\t';
+
+export interface DelimitedTable {
+  delimiter: Delimiter;
+  rows: string[][];
+}
+
+// Keeps a huge paste or file from building a table the editor can't handle
+export const MAX_CELLS = 20_000;
+
+/**
+ * Read tab- or comma-separated text (a range copied from a spreadsheet, a
+ * `.csv` file) as rows of cells. Quoted fields may hold delimiters, quotes
+ * (`""`) and newlines. When guessing (a paste), returns null unless the
+ * text reads as a grid: every row with the same number of cells, at least
+ * two of them. With the delimiter given (a file), short rows are padded.
+ */
+export function parseDelimited(text: string, delimiter?: Delimiter): DelimitedTable | null {
+  const source = text.replace(/\r\n?/g, '\n').replace(/\n+$/, '');
+  if (source === '') return null;
+
+  const detected = delimiter ?? detectDelimiter(source);
+  if (!detected) return null;
+
+  const rows = splitFields(source, detected);
+  if (!rows) return null;
+
+  const columns = Math.max(...rows.map((row) => row.length));
+  if (rows.length * columns > MAX_CELLS) return null;
+
+  if (!delimiter && (columns < 2 || rows.some((row) => row.length !== columns))) return null;
+
+  return {
+    delimiter: detected,
+    rows: rows.map((row) => [...row, ...Array<string>(columns - row.length).fill('')]),
+  };
+}
+
+// Write rows as CSV, quoting only the fields that need it
+export function toCsv(rows: string[][]): string {
+  return rows
+    .map((row) => row.map((cell) => (/[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+    .join('\n') + '\n';
+}
+
+// Tabs win: a tab almost never appears in prose, while commas often do
+function detectDelimiter(source: string): Delimiter | null {
+  if (source.includes('\t')) return '\t';
+  if (source.includes(',')) return ',';
+  return null;
+}
+
+function splitFields(source: string, delimiter: Delimiter): string[][] | null {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    // A quote only opens a quoted field at the start of the field
+    if (char === '"' && field === '') {
+      const end = findClosingQuote(source, i + 1);
+      if (end === -1) return null;
+      field = source.slice(i + 1, end).replace(/""/g, '"');
+      i = end + 1;
+      // Anything between the closing quote and the next delimiter is malformed
+      if (i < source.length && source[i] !== delimiter && source[i] !== '\n') return null;
+      continue;
+    }
+
+    if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  row.push(field);
+  rows.push(row);
+  return rows;
+}
+
+function findClosingQuote(source: string, from: number): number {
+  let i = from;
+  while (i < source.length) {
+    if (source[i] === '"') {
+      if (source[i + 1] === '"') {
+        i += 2;
+        continue;
+      }
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
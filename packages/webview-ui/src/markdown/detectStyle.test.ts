@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { detectMarkdownStyle } from './detectStyle';
+import { parseMarkdown } from './parse';
+
+function detect(source: string) {
+  return detectMarkdownStyle(source, parseMarkdown(source).root);
+}
+
+describe('detectMarkdownStyle', () => {
+  it('takes each style from the first construct that shows it', () => {
+    const source = [
+      '* one',
+      '* two',
+      '',
+      '- three',
+      '',
+      '_emphasis_ and __strong__ then *more*',
+      '',
+      '~~~~',
+      'code',
+      '~~~~',
+      '',
+      '***',
+      '',
+      'line\\',
+      'break',
+      '',
+    ].join('\n');
+
+    expect(detect(source)).toEqual({
+      bulletStyle: '*',
+      emphasisStyle: '_',
+      strongStyle: '_',
+      fenceStyle: '~',
+      fenceLength: 4,
+      ruleStyle: '*',
+      breakStyle: 'backslash',
+      listIndent: 'one',
+    });
+  });
+
+  it('tells repeated numbers from counting ones', () => {
+    expect(detect('1. a\n1. b\n').orderedListNumbering).toBe('one');
+    expect(detect('1. a\n2. b\n').orderedListNumbering).toBe('increment');
+  });
+
+  it('does not learn the fence length from a fence that wraps another fence', () => {
+    expect(detect('`````\n```\nnested\n```\n`````\n').fenceLength).toBeUndefined();
+  });
+
+  it('leaves styles the document does not use unset', () => {
+    expect(detect('Just a paragraph.\n')).toEqual({});
+  });
+});
@@ -0,0 +1,115 @@
+import type { Root, Content, List } from 'mdast';
+import type { StringifyOptions } from './stringify';
+
+type MarkdownStyle = Pick<
+  StringifyOptions,
+  | 'bulletStyle'
+  | 'emphasisStyle'
+  | 'strongStyle'
+  | 'fenceStyle'
+  | 'fenceLength'
+  | 'ruleStyle'
+  | 'orderedListNumbering'
+  | 'listIndent'
+  | 'breakStyle'
+>;
+
+type Node = Root | Content;
+
+/**
+ * Work out which markdown style a document is written in (bullet character,
+ * emphasis markers, fences, ...) from the first occurrence of each construct,
+ * so edited blocks are written back the same way. Styles the document doesn't
+ * use are left unset.
+ */
+export function detectMarkdownStyle(source: string, root: Root): MarkdownStyle {
+  const style: MarkdownStyle = {};
+
+  const visit = (node: Node) => {
+    const start = node.position?.start.offset;
+
+    if (start !== undefined) {
+      const char = source.charAt(start);
+
+      switch (node.type) {
+        case 'list':
+          detectListStyle(source, node, style);
+          break;
+        case 'emphasis':
+          if (!style.emphasisStyle && (char === '*' || char === '_')) {
+            style.emphasisStyle = char;
+          }
+          break;
+        case 'strong':
+          if (!style.strongStyle && (char === '*' || char === '_')) {
+            style.strongStyle = char;
+          }
+          break;
+        case 'code': {
+          // Indented code has no fence to learn from
+          const fence = /^(`{3,}|~{3,})/.exec(source.slice(start));
+          if (fence && !style.fenceStyle) {
+            style.fenceStyle = fence[1].charAt(0) as '`' | '~';
+          }
+          // A longer fence may only be there because the code contains a fence
+          if (fence && !style.fenceLength && !/(`{3,}|~{3,})/.test(node.value)) {
+            style.fenceLength = fence[1].length;
+          }
+          break;
+        }
+        case 'break':
+          if (!style.breakStyle && (char === '\\' || char === ' ')) {
+            style.breakStyle = char === '\\' ? 'backslash' : 'spaces';
+          }
+          break;
+        case 'thematicBreak':
+          if (!style.ruleStyle && (char === '-' || char === '*' || char === '_')) {
+            style.ruleStyle = char;
+          }
+          break;
+      }
+    }
+
+    if ('children' in node) {
+      for (const child of node.children) {
+        visit(child);
+      }
+    }
+  };
+
+  visit(root);
+  return style;
+}
+
+function detectListStyle(source: string, list: List, style: MarkdownStyle): void {
+  const [first, second] = list.children;
+  const firstStart = first?.position?.start.offset;
+  if (firstStart === undefined) return;
+
+  if (!list.ordered && !style.bulletStyle) {
+    const char = source.charAt(firstStart);
+    if (char === '-' || char === '*' || char === '+') {
+      style.bulletStyle = char;
+    }
+  }
+
+  // `1.` `1.` `1.` vs `1.` `2.` `3.`
+  const secondStart = second?.position?.start.offset;
+  if (list.ordered && !style.orderedListNumbering && secondStart !== undefined) {
+    const firstNumber = /^\d+/.exec(source.slice(firstStart))?.[0];
+    const secondNumber = /^\d+/.exec(source.slice(secondStart))?.[0];
+    if (firstNumber && secondNumber) {
+      style.orderedListNumbering = firstNumber === secondNumber ? 'one' : 'increment';
+    }
+  }
+
+  // Content aligned to the next tab stop rather than one space after the marker
+  const contentStart = first.children[0]?.position?.start;
+  if (!style.listIndent && contentStart && first.position) {
+    const gap = contentStart.column - first.position.start.column;
+    const marker = /^(\d+[.)]|[-*+])/.exec(source.slice(firstStart))?.[0];
+    if (marker && contentStart.line === first.position.start.line) {
+      style.listIndent = gap === marker.length + 1 ? 'one' : gap % 4 === 0 ? 'tab' : undefined;
+    }
+  }
+}
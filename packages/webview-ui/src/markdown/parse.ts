@@ -1,8 +1,31 @@
 import { fromMarkdown } from 'mdast-util-from-markdown';
 import { gfm } from 'micromark-extension-gfm';
 import { gfmFromMarkdown } from 'mdast-util-gfm';
+import { frontmatter } from 'micromark-extension-frontmatter';
+import { frontmatterFromMarkdown } from 'mdast-util-frontmatter';
+import { math } from 'micromark-extension-math';
+import { mathFromMarkdown } from 'mdast-util-math';
 import type { Root, Content, PhrasingContent } from 'mdast';
 
+// TOML front matter nodes are produced by mdast-util-frontmatter but are not
+// part of @types/mdast
+declare module 'mdast' {
+  interface Toml extends Literal {
+    type: 'toml';
+  }
+
+  interface FrontmatterContentMap {
+    toml: Toml;
+  }
+
+  interface RootContentMap {
+    toml: Toml;
+  }
+}
+
+// Front matter styles recognized at the top of a document
+export const FRONTMATTER_FORMATS: ('yaml' | 'toml')[] = ['yaml', 'toml'];
+
 export interface ParseOptions {
   mathEnabled?: boolean;
 }
@@ -11,11 +34,17 @@ export interface ParseResult {
   root: Root;
 }
 
-export function parseMarkdown(text: string, _options: ParseOptions = {}): ParseResult {
-  const root = fromMarkdown(text, {
-    extensions: [gfm()],
-    mdastExtensions: [gfmFromMarkdown()],
-  });
+export function parseMarkdown(text: string, options: ParseOptions = {}): ParseResult {
+  const extensions = [gfm(), frontmatter(FRONTMATTER_FORMATS)];
+  const mdastExtensions = [gfmFromMarkdown(), frontmatterFromMarkdown(FRONTMATTER_FORMATS)];
+
+  // `$` is common in prose, so math syntax is only recognized when enabled
+  if (options.mathEnabled) {
+    extensions.push(math());
+    mdastExtensions.push(mathFromMarkdown());
+  }
+
+  const root = fromMarkdown(text, { extensions, mdastExtensions });
 
   return { root };
 }
@@ -61,6 +90,18 @@ export function isLink(node: Content | PhrasingContent): node is Extract<Content
   return node.type === 'link';
 }
 
+export function isFrontmatter(node: Content): node is Extract<Content, { type: 'yaml' | 'toml' }> {
+  return node.type === 'yaml' || node.type === 'toml';
+}
+
+export function isMath(node: Content): node is Extract<Content, { type: 'math' }> {
+  return node.type === 'math';
+}
+
+export function isInlineMath(node: Content | PhrasingContent): node is Extract<PhrasingContent, { type: 'inlineMath' }> {
+  return node.type === 'inlineMath';
+}
+
 export function isHtml(node: Content): node is Extract<Content, { type: 'html' }> {
   return node.type === 'html';
 }
@@ -0,0 +1,38 @@
+import DOMPurify from 'dompurify';
+
+// SECURITY: strict allowlist for HTML found in markdown. Anything outside it
+// is never rendered, only shown as source.
+const SANITIZE_CONFIG = {
+  ALLOWED_TAGS: ['img', 'br', 'hr', 'kbd', 'sup', 'sub', 'mark'],
+  ALLOWED_ATTR: ['src', 'alt', 'title', 'width', 'height'],
+  ALLOW_DATA_ATTR: false,
+  RETURN_DOM: false,
+  RETURN_DOM_FRAGMENT: false,
+};
+
+export function sanitizeHtml(html: string): string {
+  return DOMPurify.sanitize(html, SANITIZE_CONFIG) as string;
+}
+
+// Whether the HTML passes the allowlist untouched, so rendering it shows
+// exactly what was written
+export function isAllowedHtml(html: string): boolean {
+  DOMPurify.sanitize(html, SANITIZE_CONFIG);
+  return DOMPurify.removed.length === 0;
+}
+
+// SECURITY: wider config for previewing HTML blocks (`<div align="center">`,
+// `<p>`, `<a>`, `<picture>`, ...). DOMPurify's defaults already drop scripts,
+// event handlers and `javascript:` URLs; styles, forms and frames go too.
+const PREVIEW_CONFIG = {
+  USE_PROFILES: { html: true },
+  FORBID_TAGS: ['style', 'form', 'input', 'button', 'textarea', 'select', 'iframe', 'frame', 'object', 'embed'],
+  FORBID_ATTR: ['style'],
+  ALLOW_DATA_ATTR: false,
+  RETURN_DOM: false,
+  RETURN_DOM_FRAGMENT: false,
+};
+
+export function sanitizePreviewHtml(html: string): string {
+  return DOMPurify.sanitize(html, PREVIEW_CONFIG) as string;
+}
@@ -1,20 +1,145 @@
-import { toMarkdown } from 'mdast-util-to-markdown';
+import { defaultHandlers, toMarkdown } from 'mdast-util-to-markdown';
+import type { Handle, Options as ToMarkdownExtension } from 'mdast-util-to-markdown';
 import { gfmToMarkdown } from 'mdast-util-gfm';
-import type { Root } from 'mdast';
+import { frontmatterToMarkdown } from 'mdast-util-frontmatter';
+import { mathToMarkdown } from 'mdast-util-math';
+import type { Root, Code, Break, List } from 'mdast';
+import { FRONTMATTER_FORMATS } from './parse';
+import { wrapExtension } from './wrap';
+
+// Lists carry the `.` or `)` (numbered) or the `-`, `*` or `+` (bullets)
+// they were written with, and code blocks the fence they were written with
+declare module 'mdast' {
+  interface ListData {
+    delimiter?: '.' | ')';
+    bullet?: '-' | '*' | '+';
+  }
+
+  interface CodeData {
+    fence?: string;
+  }
+}
 
 export interface StringifyOptions {
+  // Hard-wrap paragraph text at this column (0 = no wrap)
   wrapWidth?: number;
+  // When wrapping, keep existing line breaks instead of reflowing them
+  preserveLineBreaks?: boolean;
   bulletStyle?: '-' | '*' | '+';
+  emphasisStyle?: '*' | '_';
+  strongStyle?: '*' | '_';
   fenceStyle?: '`' | '~';
+  // Minimum number of fence characters (longer when the code needs it)
+  fenceLength?: number;
+  ruleStyle?: '-' | '*' | '_';
+  // `1.` `2.` `3.` or `1.` `1.` `1.`
+  orderedListNumbering?: 'increment' | 'one';
+  listIndent?: 'one' | 'tab' | 'mixed';
+  // Hard line breaks as `\` or two spaces at the end of the line
+  breakStyle?: 'backslash' | 'spaces';
+  // `> [!NOTE]` GitHub alerts or `> ℹ️` emoji-prefixed quotes
+  calloutStyle?: 'admonition' | 'emoji';
+  // `<details><summary>` HTML or a bullet item whose nested content is the body
+  toggleSyntax?: 'details' | 'list';
+  mathEnabled?: boolean;
+}
+
+// Code fences use the block's own fence when it has one; the configured
+// minimum length only applies to blocks without one (new blocks). Either
+// way the fence grows past any fence inside the code.
+function codeFenceExtension(length: number): ToMarkdownExtension {
+  const code: Handle = (node: Code, parent, state, info) => {
+    const own = node.data?.fence;
+    const previous = state.options.fence;
+    if (own) {
+      state.options.fence = own.charAt(0) as '`' | '~';
+    }
+
+    let value: string;
+    try {
+      value = defaultHandlers.code(node, parent, state, info);
+    } finally {
+      state.options.fence = previous;
+    }
+
+    const fence = /^(`{3,}|~{3,})/.exec(value)?.[1];
+    const minimum = own ? own.length : length;
+
+    // Indented code, or a fence that is already long enough
+    if (!fence || fence.length >= minimum) return value;
+
+    const longer = fence.charAt(0).repeat(minimum);
+    return longer + value.slice(fence.length, value.length - fence.length) + longer;
+  };
+
+  return { handlers: { code } };
+}
+
+// Hard breaks in the configured style. A newline would end a table row, so
+// breaks in table cells are written as `<br>`.
+function breakExtension(style: StringifyOptions['breakStyle']): ToMarkdownExtension {
+  const handler: Handle = (node: Break, parent, state, info) => {
+    if (state.stack.includes('tableCell')) return '<br>';
+
+    const value = defaultHandlers.break(node, parent, state, info);
+    // The default handler falls back to a space where a break can't go
+    return style === 'spaces' && value === '\\\n' ? '  \n' : value;
+  };
+
+  return { handlers: { break: handler } };
+}
+
+// Lists keep their own delimiter or bullet marker rather than a
+// document-wide one
+function listMarkerExtension(): ToMarkdownExtension {
+  const list: Handle = (node: List, parent, state, info) => {
+    const delimiter = node.ordered ? node.data?.delimiter : undefined;
+    const bullet = node.ordered ? undefined : node.data?.bullet;
+    if (!delimiter && !bullet) {
+      return defaultHandlers.list(node, parent, state, info);
+    }
+
+    const { bulletOrdered, bullet: previousBullet } = state.options;
+    if (delimiter) state.options.bulletOrdered = delimiter;
+    if (bullet) state.options.bullet = bullet;
+    try {
+      return defaultHandlers.list(node, parent, state, info);
+    } finally {
+      state.options.bulletOrdered = bulletOrdered;
+      state.options.bullet = previousBullet;
+    }
+  };
+
+  return { handlers: { list } };
 }
 
 export function stringifyMarkdown(root: Root, options: StringifyOptions = {}): string {
+  const extensions = [
+    gfmToMarkdown(),
+    frontmatterToMarkdown(FRONTMATTER_FORMATS),
+    breakExtension(options.breakStyle),
+    listMarkerExtension(),
+    codeFenceExtension(options.fenceLength ?? 3),
+  ];
+
+  // The math extension escapes every `$` in text, so only add it when math is on
+  if (options.mathEnabled) {
+    extensions.push(mathToMarkdown());
+  }
+
+  if (options.wrapWidth && options.wrapWidth > 0) {
+    extensions.push(wrapExtension({ width: options.wrapWidth, preserveLineBreaks: options.preserveLineBreaks }));
+  }
+
   const result = toMarkdown(root, {
-    extensions: [gfmToMarkdown()],
+    extensions,
     bullet: options.bulletStyle || '-',
+    emphasis: options.emphasisStyle || '*',
+    strong: options.strongStyle || '*',
     fence: options.fenceStyle || '`',
-    listItemIndent: 'one',
-    rule: '-',
+    listItemIndent: options.listIndent || 'one',
+    incrementListMarker: options.orderedListNumbering !== 'one',
+    rule: options.ruleStyle || '-',
   });
 
   return result;
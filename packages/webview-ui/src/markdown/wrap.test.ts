@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown } from './parse';
+import { stringifyMarkdown, StringifyOptions } from './stringify';
+
+function rewrap(source: string, options: StringifyOptions): string {
+  return stringifyMarkdown(parseMarkdown(source).root, options);
+}
+
+describe('wrapExtension', () => {
+  it('fills lines up to the wrap width', () => {
+    expect(rewrap('one two three four five six seven eight\n', { wrapWidth: 15 })).toBe(
+      'one two three\nfour five six\nseven eight\n'
+    );
+  });
+
+  it('reflows existing line breaks unless asked to keep them', () => {
+    expect(rewrap('one\ntwo three\n', { wrapWidth: 40 })).toBe('one two three\n');
+    expect(rewrap('one\ntwo three\n', { wrapWidth: 40, preserveLineBreaks: true })).toBe('one\ntwo three\n');
+  });
+
+  it('never breaks inside inline code or links', () => {
+    expect(rewrap('see `a b c d` and [x y z](https://example.com) ok\n', { wrapWidth: 10 })).toBe(
+      'see\n`a b c d`\nand\n[x y z](https://example.com)\nok\n'
+    );
+  });
+
+  it('does not start a line with text that would become block syntax', () => {
+    expect(rewrap('aaaa - bbbb\n', { wrapWidth: 5 })).toBe('aaaa -\nbbbb\n');
+    expect(rewrap('aaaa 1. bbbb\n', { wrapWidth: 5 })).toBe('aaaa 1.\nbbbb\n');
+  });
+
+  it('counts the list marker and quote prefix against the width', () => {
+    expect(rewrap('- one two three four\n', { wrapWidth: 12 })).toBe('- one two\n  three four\n');
+    expect(rewrap('> one two three four\n', { wrapWidth: 12 })).toBe('> one two\n> three four\n');
+  });
+});
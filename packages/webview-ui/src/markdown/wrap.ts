@@ -0,0 +1,85 @@
+import { defaultHandlers } from 'mdast-util-to-markdown';
+import type { Handle, Options as ToMarkdownExtension } from 'mdast-util-to-markdown';
+import type { Paragraph, Text } from 'mdast';
+
+export interface WrapOptions {
+  // Column to wrap paragraph text at
+  width: number;
+  // Keep line breaks that are already in the text instead of reflowing them
+  preserveLineBreaks?: boolean;
+}
+
+// Private-use characters marking where plain text may be broken. They are
+// added after escaping, so they never change what gets escaped.
+const SPACE = '\uE000';
+const SOFT_BREAK = '\uE001';
+const BREAK_RUN = /([\uE000\uE001]+)/;
+
+// Words that would turn into block syntax if they started a line
+const UNSAFE_LINE_START = /^(?:#{1,6}$|[-+*]$|\d{1,9}[.)]$|>|=+$|-+$|\*+$|_+$|`{3}|~{3}|<)/;
+
+// A callout's `[!TYPE]` marker line (escaped or not, with any title after
+// it) has to stay on a line of its own
+const CALLOUT_MARKER = /^\\?\[![^\]\n]*\][+-]?[^\uE001\n]*\uE001/;
+
+/**
+ * Build a to-markdown extension that hard-wraps paragraph text at the given
+ * column. Only spaces in plain text are used as break points, so inline
+ * code, links and URLs are never split.
+ */
+export function wrapExtension(options: WrapOptions): ToMarkdownExtension {
+  const text: Handle = (node: Text, parent, state, info) => {
+    const value = defaultHandlers.text(node, parent, state, info);
+
+    // Link text is left alone so the link stays on one line
+    if (!state.stack.includes('paragraph') || state.stack.includes('link') || state.stack.includes('linkReference')) {
+      return value;
+    }
+
+    const marked = value.replace(/ /g, SPACE);
+    return options.preserveLineBreaks ? marked : marked.replace(/\n/g, SOFT_BREAK);
+  };
+
+  const paragraph: Handle = (node: Paragraph, parent, state, info) => {
+    let value = defaultHandlers.paragraph(node, parent, state, info);
+
+    if (CALLOUT_MARKER.test(value)) {
+      value = value.replace(SOFT_BREAK, '\n');
+    }
+
+    // Columns already taken on the first line and on continuation lines
+    // (list markers, `> ` prefixes, ...)
+    const firstIndent = info.now.column - 1;
+    const indent = info.lineShift;
+
+    return value
+      .split('\n')
+      .map((line, index) => wrapLine(line, options.width - (index === 0 ? firstIndent : indent)))
+      .join('\n');
+  };
+
+  return { handlers: { text, paragraph } };
+}
+
+// Greedily fill lines up to `width`, breaking only at marked spaces
+function wrapLine(line: string, width: number): string {
+  // Odd entries are the runs of marked spaces between words
+  const parts = line.split(BREAK_RUN);
+  const lines: string[] = [];
+  let current = parts[0];
+
+  for (let i = 1; i < parts.length; i += 2) {
+    const separator = parts[i].replace(/[\uE000\uE001]/g, ' ');
+    const word = parts[i + 1];
+
+    if (current === '' || current.length + separator.length + word.length <= width || UNSAFE_LINE_START.test(word)) {
+      current += separator + word;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  lines.push(current);
+
+  return lines.join('\n');
+}
@@ -35,6 +35,10 @@ export function writeAsset(dataUri: string, suggestedName?: string): void {
   postMessage({ type: 'WRITE_ASSET', dataUri, suggestedName });
 }
 
+export function showError(message: string): void {
+  postMessage({ type: 'SHOW_ERROR', message });
+}
+
 // Listen for messages from extension host
 export type MessageHandler = (message: HostToUIMessage) => void;
 
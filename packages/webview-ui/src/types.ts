@@ -36,10 +36,26 @@ export const SlashMDSettingsSchema = z.object({
   assetsFolder: z.string().max(256),
   imagePathResolution: ImagePathResolutionSchema,
   formatWrap: z.number().int().min(0).max(1000),
+  formatPreserveLineBreaks: z.boolean(),
+  formatBullet: z.enum(['auto', '-', '*', '+']),
+  formatEmphasis: z.enum(['auto', '*', '_']),
+  formatStrong: z.enum(['auto', '*', '_']),
+  formatFence: z.enum(['auto', '`', '~']),
+  formatFenceLength: z.number().int().min(0).max(20),
+  formatRule: z.enum(['auto', '-', '*', '_']),
+  formatOrderedList: z.enum(['auto', 'increment', 'one']),
+  formatListIndent: z.enum(['auto', 'one', 'tab', 'mixed']),
+  formatLineBreak: z.enum(['auto', 'backslash', 'spaces']),
   calloutsStyle: z.enum(['admonition', 'emoji']),
+  calloutsCustomTypes: z.record(
+    z.string().max(64),
+    z.object({ icon: z.string().max(16).optional(), color: z.string().max(64).optional() })
+  ),
   togglesSyntax: z.enum(['details', 'list']),
+  tablesPasteDelimited: z.enum(['table', 'ask', 'text']),
   mathEnabled: z.boolean(),
   mermaidEnabled: z.boolean(),
+  commentsVisible: z.boolean(),
   codeTheme: CodeThemeSchema,
   headingColor: z.string().max(64),
   h1Color: z.string().max(64),
@@ -47,11 +63,13 @@ export const SlashMDSettingsSchema = z.object({
   h3Color: z.string().max(64),
   h4Color: z.string().max(64),
   h5Color: z.string().max(64),
+  h6Color: z.string().max(64),
   h1Indent: z.string().max(64),
   h2Indent: z.string().max(64),
   h3Indent: z.string().max(64),
   h4Indent: z.string().max(64),
   h5Indent: z.string().max(64),
+  h6Indent: z.string().max(64),
   boldColor: z.string().max(64),
   italicColor: z.string().max(64),
 });
@@ -92,12 +110,19 @@ export const ErrorMessageSchema = z.object({
   message: z.string().max(10000),
 });
 
+export const InsertTableMessageSchema = z.object({
+  type: z.literal('INSERT_TABLE'),
+  text: z.string().max(5_000_000), // CSV or TSV file contents
+  delimiter: z.enum([',', '\t']),
+});
+
 export const HostToUIMessageSchema = z.discriminatedUnion('type', [
   DocInitMessageSchema,
   DocChangedMessageSchema,
   AssetWrittenMessageSchema,
   SettingsChangedMessageSchema,
   ErrorMessageSchema,
+  InsertTableMessageSchema,
 ]);
 
 // =============================================================================
@@ -116,7 +141,8 @@ export type UIToHostMessage =
   | { type: 'APPLY_TEXT_EDITS'; edits: TextEdit[]; reason: 'typing' | 'drag' | 'paste' | 'format' }
   | { type: 'WRITE_ASSET'; dataUri: string; suggestedName?: string }
   | { type: 'REQUEST_INIT' }
-  | { type: 'REQUEST_SETTINGS' };
+  | { type: 'REQUEST_SETTINGS' }
+  | { type: 'SHOW_ERROR'; message: string };
 
 // =============================================================================
 // VALIDATION HELPER
@@ -141,6 +167,9 @@ export type BlockType =
   | 'heading1'
   | 'heading2'
   | 'heading3'
+  | 'heading4'
+  | 'heading5'
+  | 'heading6'
   | 'bulletList'
   | 'numberedList'
   | 'todoList'
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Lexical's code highlighting reads Prism from window, and HTML is sanitized with DOMPurify
+    environment: 'jsdom',
+    include: ['src/**/*.test.ts'],
+  },
+});